@@ -28,7 +28,8 @@ export default {
   external: [
     'express-session',
     'debug',
-    'etcd3'
+    'etcd3',
+    'etcd3/lib/src/errors'
   ],
   watch: {
     include: 'src/**',
@@ -0,0 +1,130 @@
+/**
+ * Configuration options for the batching of the session writes.
+ */
+export interface BatchingOptions {
+  /**
+   * Maximum number of writes sent in a single transaction, the batch is sent as soon as
+   * it is reached. Keep it under the `--max-txn-ops` of etcd, 128 by default.
+   *
+   * Defaults to `100`.
+   */
+  maxSize?: number
+  /**
+   * Maximum time in milliseconds a write waits for other ones to join its batch.
+   *
+   * Defaults to `5`.
+   */
+  maxDelay?: number
+}
+
+/**
+ * Default configuration values for the batching options
+ */
+export const defaultBatchingOptions: BatchingOptions = Object.freeze({
+  maxSize: 100,
+  maxDelay: 5
+})
+
+/**
+ * Put of a session value bound to a lease of the given ttl, sent in a batch.
+ */
+export interface SessionWrite {
+  key: string
+  value: Buffer
+  ttl: number
+}
+
+interface PendingWrite<T> {
+  write: T
+  waiting: Array<{ resolve: () => void; reject: (err: any) => void }>
+}
+
+/**
+ * Collector of the writes made within a short window, sent together by the given
+ * `send` function. A write of a key already pending replaces it, and every caller
+ * is settled with the outcome of the batch holding the last write of its key.
+ */
+export class WriteBatcher<T> {
+  private pending = new Map<string, PendingWrite<T>>()
+  private sending = new Set<Promise<void>>()
+  private timer?: NodeJS.Timer
+  private maxSize: number
+  private maxDelay: number
+
+  constructor(private send: (writes: T[]) => Promise<void>, options: BatchingOptions = {}) {
+    this.maxSize = options.maxSize === undefined ? defaultBatchingOptions.maxSize! : options.maxSize
+    this.maxDelay =
+      options.maxDelay === undefined ? defaultBatchingOptions.maxDelay! : options.maxDelay
+  }
+
+  /**
+   * Add the write of the key to the next batch, resolving once it is sent.
+   */
+  add(key: string, write: T): Promise<void> {
+    const entry = this.pending.get(key)
+    const waiting = entry ? entry.waiting : []
+    this.pending.delete(key)
+    this.pending.set(key, { write, waiting })
+    const sending = this.wait(waiting)
+    if (this.pending.size >= this.maxSize) this.sendPending()
+    else if (!this.timer) this.timer = setTimeout(() => this.sendPending(), this.maxDelay)
+    return sending
+  }
+
+  /**
+   * Wait for the write of the key pending in the next batch, if any.
+   */
+  join(key: string): Promise<void> | undefined {
+    const entry = this.pending.get(key)
+    return entry && this.wait(entry.waiting)
+  }
+
+  /**
+   * Send the pending writes now when the key is among them, resolving once its write is
+   * sent, or give `undefined` when it is not pending.
+   */
+  flushKey(key: string): Promise<void> | undefined {
+    const joined = this.join(key)
+    if (joined) this.sendPending()
+    return joined
+  }
+
+  /**
+   * Send the pending writes now, resolving once all the batches sent so far are done,
+   * whatever their outcome.
+   */
+  flush(): Promise<void> {
+    this.sendPending()
+    return Promise.all(Array.from(this.sending)).then(() => undefined)
+  }
+
+  /**
+   * Send the pending writes in a batch, settling their callers with its outcome.
+   */
+  private sendPending() {
+    if (this.timer) clearTimeout(this.timer)
+    this.timer = undefined
+    const batch = Array.from(this.pending.values())
+    this.pending.clear()
+    if (!batch.length) return
+    const writes = batch.map(entry => entry.write)
+    const sending = Promise.resolve()
+      .then(() => this.send(writes))
+      .then(
+        () => batch.forEach(entry => entry.waiting.forEach(caller => caller.resolve())),
+        err => batch.forEach(entry => entry.waiting.forEach(caller => caller.reject(err)))
+      )
+    this.sending.add(sending)
+    sending.then(
+      () => this.sending.delete(sending),
+      () => this.sending.delete(sending)
+    )
+  }
+
+  /**
+   * Add a caller waiting for the batch of the write.
+   */
+  private wait(waiting: PendingWrite<T>['waiting']): Promise<void> {
+    return new Promise<void>((resolve, reject) => waiting.push({ resolve, reject }))
+  }
+}
@@ -0,0 +1,7 @@
+#!/usr/bin/env node
+import { run } from './cli'
+
+run(process.argv.slice(2)).then(
+  code => process.exit(code),
+  () => process.exit(1)
+)
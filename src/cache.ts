@@ -0,0 +1,126 @@
+/**
+ * Configuration options for the local read cache of the sessions.
+ */
+export interface CacheOptions {
+  /**
+   * Maximum number of sessions kept in the cache, the least recently used ones
+   * are evicted first.
+   *
+   * Defaults to `1000`.
+   */
+  max?: number
+  /**
+   * Maximum time in seconds a session is kept in the cache.
+   *
+   * Defaults to `60`.
+   */
+  ttl?: number
+}
+
+/**
+ * Counters of the cache usage.
+ */
+export interface CacheStats {
+  hits: number
+  misses: number
+  size: number
+}
+
+/**
+ * Default configuration values for the cache options
+ */
+export const defaultCacheOptions: CacheOptions = Object.freeze({
+  max: 1000,
+  ttl: 60
+})
+
+interface CacheEntry<T> {
+  value: T
+  expiresAt: number
+}
+
+/**
+ * In-process LRU cache of the raw session key-values, keyed by their etcd key.
+ *
+ * Every eviction bumps the cache `generation`, so a value read from etcd while
+ * its key was changed is not cached with stale data.
+ */
+export class SessionCache<T = Buffer> {
+  generation = 0
+  private active = false
+  private entries = new Map<string, CacheEntry<T>>()
+  private hits = 0
+  private misses = 0
+  private max: number
+  private ttl: number
+
+  constructor(options: CacheOptions = {}) {
+    this.max = options.max === undefined ? defaultCacheOptions.max! : options.max
+    this.ttl = options.ttl === undefined ? defaultCacheOptions.ttl! : options.ttl
+  }
+
+  /**
+   * Get the cached value of the key, counting the hit or miss.
+   */
+  get(key: string): T | undefined {
+    const entry = this.active ? this.entries.get(key) : undefined
+    if (entry && entry.expiresAt > Date.now()) {
+      this.hits++
+      this.entries.delete(key)
+      this.entries.set(key, entry)
+      return entry.value
+    }
+    if (entry) this.entries.delete(key)
+    this.misses++
+    return undefined
+  }
+
+  /**
+   * Cache the value of the key, unless something was evicted since the
+   * given `generation`, when the value was read.
+   */
+  set(key: string, value: T, generation: number) {
+    if (!this.active || generation !== this.generation || this.max <= 0) return
+    this.entries.delete(key)
+    this.entries.set(key, { value, expiresAt: Date.now() + this.ttl * 1000 })
+    if (this.entries.size > this.max) {
+      this.entries.delete(this.entries.keys().next().value)
+    }
+  }
+
+  /**
+   * Evict the key from the cache.
+   */
+  delete(key: string) {
+    this.generation++
+    this.entries.delete(key)
+  }
+
+  /**
+   * Evict all the keys from the cache.
+   */
+  clear() {
+    this.generation++
+    this.entries.clear()
+  }
+
+  /**
+   * Start using the cache, once the changes of the keys are being watched.
+   */
+  activate() {
+    this.clear()
+    this.active = true
+  }
+
+  /**
+   * Stop using the cache, when the changes of the keys may be missed.
+   */
+  deactivate() {
+    this.active = false
+    this.clear()
+  }
+
+  stats(): CacheStats {
+    return { hits: this.hits, misses: this.misses, size: this.entries.size }
+  }
+}
@@ -0,0 +1,86 @@
+import { randomBytes } from 'crypto'
+import { FrameType, isEnvelope, readFrame, writeFrame } from './envelope'
+
+/**
+ * Configuration options for the chunking of the large session values.
+ */
+export interface ChunkingOptions {
+  /**
+   * Maximum size in bytes of a value written at a single key. Keep it under the
+   * `--max-request-bytes` of etcd, 1.5 MiB by default.
+   *
+   * Defaults to `1048576`.
+   */
+  chunkSize?: number
+}
+
+/**
+ * Default configuration values for the chunking options
+ */
+export const defaultChunkingOptions: ChunkingOptions = Object.freeze({
+  chunkSize: 1048576
+})
+
+/**
+ * Value stored at the session key when it is split into chunks.
+ */
+export interface Manifest {
+  /**
+   * Random ID of the write, naming its chunk keys so they are never overwritten while
+   * they are read, or by a write that then fails.
+   */
+  generation: string
+  count: number
+}
+
+/**
+ * Split the value into the manifest to store at the session key and the chunks to
+ * store at the `chunkKey`s of its generation.
+ */
+export function splitValue(
+  value: Buffer,
+  chunkSize: number
+): { manifest: Buffer; generation: string; chunks: Buffer[] } {
+  const generation = randomBytes(8).toString('hex')
+  const chunks: Buffer[] = []
+  for (let start = 0; start < value.length; start += chunkSize) {
+    chunks.push(value.slice(start, start + chunkSize))
+  }
+  const meta = `${generation}:${chunks.length}`
+  return { manifest: writeFrame(FrameType.Chunked, meta, Buffer.alloc(0)), generation, chunks }
+}
+
+/**
+ * Read the manifest of a value split into chunks, or `undefined` if it is not one.
+ */
+export function readManifest(value: Buffer): Manifest | undefined {
+  if (!isEnvelope(value)) return undefined
+  const frame = readFrame(value)
+  if (frame.type !== FrameType.Chunked) return undefined
+  const [generation, count] = frame.meta.split(':')
+  return { generation, count: Number(count) }
+}
+
+/**
+ * Build the key of the chunk `n` of the value at `key`, written by the `generation`.
+ */
+export function chunkKey(key: string, generation: string, n = ''): string {
+  return `${key}/${generation}/${n}`
+}
+
+/**
+ * Join the chunks of the manifest, given by their index, or give `undefined` if some
+ * are missing.
+ */
+export function joinChunks(
+  manifest: Manifest,
+  chunks: Array<Buffer | undefined>
+): Buffer | undefined {
+  const found: Buffer[] = []
+  for (let n = 0; n < manifest.count; n++) {
+    const chunk = chunks[n]
+    if (!chunk) return undefined
+    found.push(chunk)
+  }
+  return Buffer.concat(found)
+}
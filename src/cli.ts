@@ -0,0 +1,264 @@
+import * as fs from 'fs'
+import { Etcd3 } from 'etcd3'
+import Etcd3Store, { defaultOptions, Etcd3StoreOptions } from './express-session-etcd3'
+import { forEachAsync } from './iteration'
+
+/**
+ * Usage of the session administration command.
+ */
+export const usage = `Usage: express-session-etcd3 <command> [options]
+
+Commands:
+  list                 List the sessions with the remaining time to live of their lease
+  show <sid>           Show a decoded session
+  destroy <sid...>     Destroy the given sessions
+  destroy --user <id>  Destroy all the sessions of a user, needs --user-field
+  count                Count the sessions of every --prefix
+  purge                Destroy all the sessions of the prefix
+
+Options:
+  --config <file>      JSON file with the Etcd3StoreOptions, like its encryption keys
+  --hosts <hosts>      Comma separated etcd hosts, defaults to ${defaultOptions.hosts}
+  --prefix <prefix>    Prefix of the sessions, defaults to ${defaultOptions.prefix}
+  --ca <file>          Root certificate of the etcd TLS connection
+  --cert <file>        Client certificate chain of the etcd TLS connection
+  --key <file>         Client private key of the etcd TLS connection
+  --username <name>    Name of the etcd user
+  --password <secret>  Password of the etcd user
+  --user-field <path>  Session field of the user ID, as the userField option
+  --limit <number>     Maximum number of sessions listed
+  --dry-run            Tell what destroy and purge would do, without doing it
+  --help               Show this usage
+`
+
+/**
+ * Output of the command, given a line at a time.
+ */
+export interface CliOutput {
+  log(line: string): void
+  error(line: string): void
+}
+
+/**
+ * Parsed command line, with the values of every flag given.
+ */
+export interface CliArguments {
+  command?: string
+  args: string[]
+  flags: { [name: string]: string[] }
+}
+
+const valueFlags = [
+  'config',
+  'hosts',
+  'prefix',
+  'ca',
+  'cert',
+  'key',
+  'username',
+  'password',
+  'user-field',
+  'user',
+  'limit'
+]
+const booleanFlags = ['dry-run', 'help']
+const commands = ['list', 'show', 'destroy', 'count', 'purge']
+
+class UsageError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'UsageError'
+    Object.setPrototypeOf(this, UsageError.prototype)
+  }
+}
+
+/**
+ * Parse the command line arguments, given without the node and script paths.
+ */
+export function parseArgs(argv: string[]): CliArguments {
+  const parsed: CliArguments = { args: [], flags: {} }
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i]
+    if (!arg.startsWith('--')) {
+      parsed.args.push(arg)
+      continue
+    }
+    const separator = arg.indexOf('=')
+    const name = arg.slice(2, separator < 0 ? undefined : separator)
+    let value = separator < 0 ? undefined : arg.slice(separator + 1)
+    if (booleanFlags.includes(name)) {
+      value = 'true'
+    } else if (!valueFlags.includes(name)) {
+      throw new UsageError(`Unknown option --${name}.`)
+    } else if (value === undefined) {
+      if (i + 1 >= argv.length) throw new UsageError(`Missing the value of --${name}.`)
+      value = argv[++i]
+    }
+    parsed.flags[name] = (parsed.flags[name] || []).concat(value)
+  }
+  parsed.command = parsed.args.shift()
+  return parsed
+}
+
+function flag(parsed: CliArguments, name: string): string | undefined {
+  const values = parsed.flags[name]
+  return values && values[values.length - 1]
+}
+
+/**
+ * Build the store options from the `--config` file and the connection flags.
+ */
+export function storeOptions(parsed: CliArguments, prefix = flag(parsed, 'prefix')) {
+  const configFile = flag(parsed, 'config')
+  const options: Etcd3StoreOptions = configFile
+    ? JSON.parse(fs.readFileSync(configFile, 'utf8'))
+    : {}
+  const hosts = flag(parsed, 'hosts')
+  if (hosts) options.hosts = hosts.split(',')
+  if (prefix) options.prefix = prefix
+  const ca = flag(parsed, 'ca')
+  if (ca) {
+    const cert = flag(parsed, 'cert')
+    const key = flag(parsed, 'key')
+    options.credentials = {
+      rootCertificate: fs.readFileSync(ca),
+      certChain: cert ? fs.readFileSync(cert) : undefined,
+      privateKey: key ? fs.readFileSync(key) : undefined
+    }
+  }
+  const username = flag(parsed, 'username')
+  if (username) options.auth = { username, password: flag(parsed, 'password') || '' }
+  const userField = flag(parsed, 'user-field')
+  if (userField) options.userField = userField
+  return { ...options, cache: false, events: false }
+}
+
+function formatTTL(ttl: number | null): string {
+  return ttl === null ? 'expired' : ttl === Infinity ? 'no lease' : `${ttl}s`
+}
+
+async function list(store: Etcd3Store, parsed: CliArguments, output: CliOutput) {
+  const limit = Number(flag(parsed, 'limit') || Infinity)
+  if (!(limit > 0)) throw new UsageError('The --limit must be a positive number.')
+  let count = 0
+  await forEachAsync(store.iterate(), async ({ sid, session }) => {
+    if (count++ >= limit) return false
+    output.log(`${sid}\t${formatTTL(await store.timeToLive(sid, session))}`)
+  })
+}
+
+async function show(store: Etcd3Store, parsed: CliArguments, output: CliOutput) {
+  const sid = parsed.args[0]
+  if (!sid) throw new UsageError('Missing the <sid> to show.')
+  const session = await store.promises.get(sid)
+  if (!session) {
+    output.error(`No session "${sid}".`)
+    return 1
+  }
+  const ttl = await store.timeToLive(sid, session)
+  output.log(JSON.stringify({ sid, ttl, session }, null, 2))
+  return 0
+}
+
+async function destroy(
+  store: Etcd3Store,
+  options: Etcd3StoreOptions,
+  parsed: CliArguments,
+  output: CliOutput
+) {
+  const dryRun = !!flag(parsed, 'dry-run')
+  const userId = flag(parsed, 'user')
+  if (userId) {
+    if (!options.userField) {
+      throw new UsageError('Destroying the sessions of a user needs --user-field.')
+    }
+    const sids = Object.keys(await store.promises.sessionsForUser(userId))
+    if (!dryRun) await store.promises.destroyUserSessions(userId)
+    sids.forEach(sid => output.log(sid))
+    output.log(`${dryRun ? 'Would destroy' : 'Destroyed'} ${sids.length} session(s).`)
+    return
+  }
+  if (!parsed.args.length) throw new UsageError('Missing the <sid> or --user to destroy.')
+  let destroyed: string[]
+  if (dryRun) {
+    const sessions = await Promise.all(parsed.args.map(sid => store.promises.get(sid)))
+    destroyed = parsed.args.filter((sid, i) => sessions[i])
+  } else {
+    destroyed = await store.promises.destroyMany(parsed.args)
+  }
+  destroyed.forEach(sid => output.log(sid))
+  output.log(`${dryRun ? 'Would destroy' : 'Destroyed'} ${destroyed.length} session(s).`)
+}
+
+async function count(client: Etcd3, parsed: CliArguments, output: CliOutput) {
+  const prefixes = parsed.flags.prefix || [defaultOptions.prefix]
+  for (const prefix of prefixes) {
+    const store = new Etcd3Store(storeOptions(parsed, prefix), client)
+    output.log(`${prefix}\t${await store.promises.length()}`)
+  }
+}
+
+async function purge(
+  store: Etcd3Store,
+  options: Etcd3StoreOptions,
+  parsed: CliArguments,
+  output: CliOutput
+) {
+  const prefix = options.prefix || defaultOptions.prefix
+  const length = await store.promises.length()
+  if (flag(parsed, 'dry-run')) {
+    output.log(`Would destroy ${length} session(s) at prefix "${prefix}".`)
+    return
+  }
+  await store.promises.clear()
+  output.log(`Destroyed ${length} session(s) at prefix "${prefix}".`)
+}
+
+/**
+ * Run the session administration command with the given arguments, resolving with
+ * its exit code.
+ */
+export async function run(argv: string[], output: CliOutput = console): Promise<number> {
+  let client: Etcd3 | undefined
+  try {
+    const parsed = parseArgs(argv)
+    if (flag(parsed, 'help')) {
+      output.log(usage)
+      return 0
+    }
+    if (!commands.includes(parsed.command!)) {
+      throw new UsageError(
+        parsed.command ? `Unknown command "${parsed.command}".` : 'Missing the command.'
+      )
+    }
+    const options = storeOptions(parsed)
+    client = new Etcd3(options)
+    const store = new Etcd3Store(options, client)
+    switch (parsed.command) {
+      case 'list':
+        await list(store, parsed, output)
+        break
+      case 'show':
+        return await show(store, parsed, output)
+      case 'destroy':
+        await destroy(store, options, parsed, output)
+        break
+      case 'count':
+        await count(client, parsed, output)
+        break
+      case 'purge':
+        await purge(store, options, parsed, output)
+        break
+    }
+    return 0
+  } catch (err) {
+    if (!(err instanceof UsageError)) {
+      output.error(String(err))
+      return 1
+    }
+    output.error(`${err.message}\n\n${usage}`)
+    return 2
+  } finally {
+    if (client) client.close()
+  }
+}
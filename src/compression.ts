@@ -0,0 +1,48 @@
+import { gunzipSync, gzipSync } from 'zlib'
+import { Frame, FrameType, writeFrame } from './envelope'
+
+/**
+ * Algorithm used to compress the session values.
+ */
+export const compressionAlgorithm = 'gzip'
+
+/**
+ * Default minimum size in bytes of a value to be compressed.
+ */
+export const defaultCompressionThreshold = 1024
+
+/**
+ * Configuration options for the compression of the session values.
+ */
+export interface CompressionOptions {
+  /**
+   * Minimum size in bytes of the serialized session to be compressed.
+   *
+   * Defaults to `1024`.
+   */
+  threshold?: number
+  /**
+   * The zlib compression level, from `0` to `9`.
+   *
+   * Defaults to the zlib default.
+   */
+  level?: number
+}
+
+/**
+ * Compress the value into a compressed envelope frame.
+ */
+export function compress(value: Buffer, options: CompressionOptions = {}): Buffer {
+  const zlibOptions = options.level === undefined ? {} : { level: options.level }
+  return writeFrame(FrameType.Compressed, compressionAlgorithm, gzipSync(value, zlibOptions))
+}
+
+/**
+ * Decompress the payload of a compressed envelope frame.
+ */
+export function decompress(frame: Frame): Buffer {
+  if (frame.meta !== compressionAlgorithm) {
+    throw new TypeError(`Unknown compression algorithm "${frame.meta}".`)
+  }
+  return gunzipSync(frame.payload)
+}
@@ -0,0 +1,59 @@
+/**
+ * Session field where `get` records the etcd revision of the session read, so `set`
+ * can tell whether it was changed by another request since then. It is never stored.
+ */
+export const revisionField = '__revision'
+
+/**
+ * Function resolving a conflicting write of the session `sid`. It is given the session
+ * being written (`ours`) and the one stored meanwhile by another request (`theirs`),
+ * or `null` if it was destroyed or expired meanwhile. It returns the session to write.
+ */
+export type MergeFunction = (
+  ours: Express.SessionData,
+  theirs: Express.SessionData | null,
+  sid: string
+) => Express.SessionData
+
+/**
+ * Configuration options for the optimistic concurrency control of the sessions.
+ */
+export interface ConcurrencyOptions {
+  /**
+   * Function resolving the conflicts. Without it, the conflicting writes fail with
+   * a `ConflictError`.
+   */
+  merge?: MergeFunction
+  /**
+   * Maximum number of merges of a single write, when the session keeps being changed
+   * by other requests. The write fails with a `ConflictError` after them.
+   *
+   * Defaults to `3`.
+   */
+  maxMerges?: number
+}
+
+/**
+ * Default configuration values for the concurrency options
+ */
+export const defaultConcurrencyOptions: ConcurrencyOptions = Object.freeze({
+  maxMerges: 3
+})
+
+/**
+ * Get the revision recorded at the session when it was read, if any.
+ */
+export function getRevision(session: Express.SessionData): string | undefined {
+  const revision = session[revisionField]
+  return typeof revision === 'string' ? revision : undefined
+}
+
+/**
+ * Get a shallow copy of the session without its recorded revision.
+ */
+export function withoutRevision(session: Express.SessionData): Express.SessionData {
+  if (!(revisionField in session)) return session
+  const copy = { ...session }
+  delete copy[revisionField]
+  return copy
+}
@@ -0,0 +1,133 @@
+import { createCipheriv, createDecipheriv, randomBytes } from 'crypto'
+import { Frame, FrameType, writeFrame } from './envelope'
+import { DecryptionError } from './errors'
+
+/**
+ * Authenticated cipher used to encrypt the session values.
+ */
+export const cipherAlgorithm = 'aes-256-gcm'
+
+/**
+ * Size in bytes of the keys used by the cipher.
+ */
+export const keySize = 32
+
+const ivSize = 12
+const authTagSize = 16
+
+/**
+ * Additional authenticated data of a value, binding it to the ID of its key and to the
+ * context it was written for, so it can't be moved to another one.
+ */
+function additionalData(keyId: string, context: string): Buffer {
+  return Buffer.from(keyId + '\0' + context, 'utf8')
+}
+
+/**
+ * An encryption key with its unique ID, which is written along every value
+ * encrypted with it.
+ */
+export interface EncryptionKey {
+  id: string
+  /**
+   * The 32 bytes key, as a buffer or a base64 encoded string.
+   */
+  key: Buffer | string
+}
+
+/**
+ * Configuration options for the encryption at rest of the session values.
+ */
+export interface EncryptionOptions {
+  /**
+   * All the keys the sessions may have been encrypted with. Keep the old keys
+   * here while the sessions written with them are still alive.
+   */
+  keys: EncryptionKey[]
+  /**
+   * ID of the key used to encrypt the new values.
+   *
+   * Defaults to the ID of the first key.
+   */
+  currentKeyId?: string
+  /**
+   * Option to read values that are not encrypted, like the ones written before
+   * enabling the encryption. Otherwise they are refused with a `DecryptionError`.
+   *
+   * Defaults to `false`.
+   */
+  allowUnencrypted?: boolean
+}
+
+/**
+ * Encrypts and decrypts the session values with the configured keys.
+ */
+export class Encryptor {
+  private keys: { [id: string]: Buffer } = {}
+  private currentKeyId: string
+
+  constructor(private options: EncryptionOptions) {
+    if (!options.keys || !options.keys.length) {
+      throw new TypeError('At least one encryption key must be configured.')
+    }
+    options.keys.forEach(({ id, key }) => {
+      const buffer = typeof key === 'string' ? Buffer.from(key, 'base64') : key
+      if (buffer.length !== keySize) {
+        throw new RangeError(`The encryption key "${id}" must have ${keySize} bytes.`)
+      }
+      this.keys[id] = buffer
+    })
+    this.currentKeyId = options.currentKeyId || options.keys[0].id
+    if (!this.keys[this.currentKeyId]) {
+      throw new TypeError(`Unknown current encryption key "${this.currentKeyId}".`)
+    }
+  }
+
+  /**
+   * Check if values without encryption can be read.
+   */
+  get allowUnencrypted(): boolean {
+    return !!this.options.allowUnencrypted
+  }
+
+  /**
+   * Encrypt the value with the current key, into an encrypted envelope frame bound to
+   * the given context, like the etcd key of the session.
+   */
+  encrypt(value: Buffer, context: string): Buffer {
+    const keyId = this.currentKeyId
+    const iv = randomBytes(ivSize)
+    const cipher = createCipheriv(cipherAlgorithm, this.keys[keyId], iv)
+    cipher.setAAD(additionalData(keyId, context))
+    const encrypted = Buffer.concat([cipher.update(value), cipher.final()])
+    return writeFrame(
+      FrameType.Encrypted,
+      keyId,
+      Buffer.concat([iv, cipher.getAuthTag(), encrypted])
+    )
+  }
+
+  /**
+   * Decrypt the payload of an encrypted envelope frame with the key named at it, failing
+   * when it was encrypted for another context.
+   */
+  decrypt(frame: Frame, context: string): Buffer {
+    const keyId = frame.meta
+    const key = this.keys[keyId]
+    if (!key) throw new DecryptionError(`Unknown encryption key "${keyId}".`, keyId)
+    if (frame.payload.length < ivSize + authTagSize) {
+      throw new DecryptionError('The encrypted value is truncated.', keyId)
+    }
+    try {
+      const decipher = createDecipheriv(cipherAlgorithm, key, frame.payload.slice(0, ivSize))
+      decipher.setAAD(additionalData(keyId, context))
+      decipher.setAuthTag(frame.payload.slice(ivSize, ivSize + authTagSize))
+      return Buffer.concat([
+        decipher.update(frame.payload.slice(ivSize + authTagSize)),
+        decipher.final()
+      ])
+    } catch (err) {
+      throw new DecryptionError(`Unable to decrypt the value: ${err.message}`, keyId)
+    }
+  }
+}
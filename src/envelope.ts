@@ -0,0 +1,83 @@
+/**
+ * First byte of every enveloped value. It can never start a JSON text, so values
+ * written before the envelope existed are still told apart from the new ones.
+ */
+export const envelopeMagic = 0x00
+
+/**
+ * Version of the envelope format written by this store.
+ */
+export const envelopeVersion = 1
+
+/**
+ * Kinds of frame that can be written into an envelope.
+ */
+export enum FrameType {
+  /**
+   * The payload is a session written by the serializer named in the frame meta.
+   */
+  Serialized = 0x73,
+  /**
+   * The payload is another envelope, encrypted with the key named in the frame meta.
+   */
+  Encrypted = 0x65,
+  /**
+   * The payload is another envelope, compressed with the algorithm named in the frame meta.
+   */
+  Compressed = 0x7a,
+  /**
+   * The value is split across chunk keys, with the generation and count named in the
+   * frame meta.
+   */
+  Chunked = 0x63
+}
+
+/**
+ * A decoded envelope frame.
+ */
+export interface Frame {
+  type: FrameType
+  /**
+   * Short text describing the payload, like the name of the serializer used.
+   */
+  meta: string
+  payload: Buffer
+}
+
+/**
+ * Size of the fixed part of the header: magic, version, type and meta length.
+ */
+const headerSize = 4
+
+/**
+ * Check if the given value was written inside an envelope.
+ */
+export function isEnvelope(value: Buffer): boolean {
+  return value.length >= headerSize && value[0] === envelopeMagic
+}
+
+/**
+ * Write the `payload` into an envelope with the given frame `type` and `meta` header.
+ */
+export function writeFrame(type: FrameType, meta: string, payload: Buffer): Buffer {
+  const metaBuffer = Buffer.from(meta, 'utf8')
+  if (metaBuffer.length > 0xff) throw new RangeError(`Envelope meta "${meta}" is too long.`)
+  const header = Buffer.from([envelopeMagic, envelopeVersion, type, metaBuffer.length])
+  return Buffer.concat([header, metaBuffer, payload])
+}
+
+/**
+ * Read the frame from an enveloped value.
+ */
+export function readFrame(value: Buffer): Frame {
+  if (!isEnvelope(value)) throw new TypeError('The value is not enveloped.')
+  const version = value[1]
+  if (version !== envelopeVersion) throw new TypeError(`Unknown envelope version ${version}.`)
+  const metaEnd = headerSize + value[3]
+  if (metaEnd > value.length) throw new TypeError('The envelope header is truncated.')
+  return {
+    type: value[2],
+    meta: value.toString('utf8', headerSize, metaEnd),
+    payload: value.slice(metaEnd)
+  }
+}
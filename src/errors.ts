@@ -0,0 +1,85 @@
+/**
+ * Error given when a stored session value can not be decrypted, because it was
+ * tampered with or written with a key that is not configured.
+ */
+export class DecryptionError extends Error {
+  constructor(message: string, public keyId?: string) {
+    super(message)
+    this.name = 'DecryptionError'
+    Object.setPrototypeOf(this, DecryptionError.prototype)
+  }
+}
+
+/**
+ * Error given when a session can not be written because another request changed it
+ * since it was read, and the conflict was not merged.
+ */
+export class ConflictError extends Error {
+  constructor(message: string, public sid: string) {
+    super(message)
+    this.name = 'ConflictError'
+    Object.setPrototypeOf(this, ConflictError.prototype)
+  }
+}
+
+/**
+ * Error given without reaching etcd while the circuit breaker is open, as etcd looks down.
+ */
+export class CircuitOpenError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'CircuitOpenError'
+    Object.setPrototypeOf(this, CircuitOpenError.prototype)
+  }
+}
+
+/**
+ * Error given when a stored session value can not be parsed, or is not a valid session.
+ */
+export class InvalidSessionError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'InvalidSessionError'
+    Object.setPrototypeOf(this, InvalidSessionError.prototype)
+  }
+}
+
+/**
+ * Error given by `get` for a session that expired after the `idleTimeout` without any
+ * activity, rather than never existed. Its `ENOENT` code lets express-session treat it
+ * as a missing session, without passing it on, so the store also emits it as an `idle`
+ * event.
+ */
+export class IdleTimeoutError extends Error {
+  code = 'ENOENT'
+
+  constructor(message: string, public sid: string) {
+    super(message)
+    this.name = 'IdleTimeoutError'
+    Object.setPrototypeOf(this, IdleTimeoutError.prototype)
+  }
+}
+
+/**
+ * Error given when the lock of a session can not be acquired before the timeout, as
+ * another request kept holding it.
+ */
+export class SessionLockError extends Error {
+  constructor(message: string, public sid: string) {
+    super(message)
+    this.name = 'SessionLockError'
+    Object.setPrototypeOf(this, SessionLockError.prototype)
+  }
+}
+
+/**
+ * Error given when a revision of a session is requested after etcd compacted it, so
+ * its version is not kept anymore.
+ */
+export class CompactedRevisionError extends Error {
+  constructor(message: string, public revision: string) {
+    super(message)
+    this.name = 'CompactedRevisionError'
+    Object.setPrototypeOf(this, CompactedRevisionError.prototype)
+  }
+}
@@ -1,6 +1,113 @@
 import { Store } from 'express-session'
-import { Etcd3, IOptions } from 'etcd3'
+import {
+  Etcd3,
+  IKeyValue,
+  ILeaseKeepAliveResponse,
+  IOptions,
+  IRequestOp,
+  ITxnResponse,
+  Lease,
+  Range,
+  Watcher
+} from 'etcd3'
 import debug from 'debug'
+import { Frame, FrameType, isEnvelope, readFrame, writeFrame } from './envelope'
+import { Serializer, builtInSerializers, jsonSerializer } from './serializer'
+import { EncryptionOptions, Encryptor } from './encryption'
+import {
+  CompressionOptions,
+  compress,
+  decompress,
+  defaultCompressionThreshold
+} from './compression'
+import {
+  CompactedRevisionError,
+  ConflictError,
+  DecryptionError,
+  IdleTimeoutError,
+  InvalidSessionError
+} from './errors'
+import { CacheOptions, CacheStats, SessionCache } from './cache'
+import { MeasuredOperation, StoreMetrics } from './metrics'
+import { CircuitEvent, FallbackStore, Resilience, ResilienceOptions } from './resilience'
+import { checkHealth, HealthCheckOptions, HealthStatus } from './health'
+import {
+  defaultValidationOptions,
+  parseSession,
+  QuarantineEvent,
+  validateSession,
+  ValidationOptions
+} from './validation'
+import {
+  chunkKey,
+  ChunkingOptions,
+  defaultChunkingOptions,
+  joinChunks,
+  Manifest,
+  readManifest,
+  splitValue
+} from './chunking'
+import { IdleEvent, lifetimeLeft, stampCreatedAt } from './lifetime'
+import { TouchThrottle, TouchThrottleOptions } from './throttle'
+import { BatchingOptions, SessionWrite, WriteBatcher } from './batching'
+import { acquireLock, LockOptions } from './locking'
+import {
+  defaultHistoryLimit,
+  getUpdatedAt,
+  HistoryOptions,
+  isCompactedError,
+  SessionVersion,
+  updatedAtField
+} from './history'
+import { asyncIterator, forEachAsync } from './iteration'
+import { formatRecord, ImportOptions, ImportResult, readRecords, writeLine } from './ndjson'
+import {
+  ConcurrencyOptions,
+  defaultConcurrencyOptions,
+  getRevision,
+  revisionField,
+  withoutRevision
+} from './concurrency'
+
+export { Serializer, jsonSerializer, msgpackSerializer } from './serializer'
+export { EncryptionKey, EncryptionOptions } from './encryption'
+export { CompressionOptions } from './compression'
+export { CacheOptions, CacheStats } from './cache'
+export {
+  MeasuredOperation,
+  PrometheusMetrics,
+  PrometheusMetricsOptions,
+  StoreMetrics,
+  prometheusContentType
+} from './metrics'
+export { ConcurrencyOptions, MergeFunction, revisionField } from './concurrency'
+export { createdAtField, IdleEvent } from './lifetime'
+export { TouchThrottleOptions } from './throttle'
+export { BatchingOptions } from './batching'
+export { LockOptions, sessionLock, SessionLockMiddlewareOptions } from './locking'
+export { HistoryOptions, SessionVersion, updatedAtField } from './history'
+export {
+  CircuitBreakerOptions,
+  CircuitEvent,
+  CircuitState,
+  FallbackStore,
+  ResilienceOptions,
+  RetryOptions,
+  isTransientError
+} from './resilience'
+export { ChunkingOptions } from './chunking'
+export { ImportMode, ImportOptions, ImportResult, SessionRecord } from './ndjson'
+export { HealthCheckOptions, HealthCheckResult, HealthStatus, readinessHandler } from './health'
+export { QuarantineEvent, SessionValidator, ValidationOptions } from './validation'
+export {
+  CircuitOpenError,
+  CompactedRevisionError,
+  ConflictError,
+  DecryptionError,
+  IdleTimeoutError,
+  InvalidSessionError,
+  SessionLockError
+} from './errors'
 
 /**
  * One day in seconds.
@@ -17,11 +124,21 @@ export const maxTTL = 6442450
  */
 export interface Etcd3StoreOptions extends IOptions {
   /**
-   * Prefix used to record the keys of all the sessions.
+   * Prefix used to record the keys of all the sessions, or a function resolving it per
+   * session, like from the tenant encoded at its sid. The resolved prefixes must be the
+   * `rootPrefix` followed by a name without `/` or `:`, so their keys never overlap.
    *
    * Defaults to `sess`.
    */
-  prefix?: string
+  prefix?: string | PrefixResolver
+  /**
+   * Start of all the prefixes resolved by the `prefix` function, ending with `/`. `all`,
+   * `length`, `iterate` and `clear` work across all of them, while `scope(prefix)` gives
+   * the store of a single one.
+   *
+   * Defaults to `sess/`.
+   */
+  rootPrefix?: string
   /**
    * Option to skip touching process that express does every time it reads the session.
    * This is useful if you work with big TTL and wanna free your ETCD from this extra access.
@@ -29,15 +146,214 @@ export interface Etcd3StoreOptions extends IOptions {
    * Defaults to `false`.
    */
   skipTouch?: boolean
+  /**
+   * Option to only refresh the lease of a session on touch once the lease left drops
+   * under a threshold, like half of its ttl. The expiry of the leases written or touched
+   * is tracked in-process, so skipping a touch needs no request to etcd.
+   *
+   * Defaults to `false`.
+   */
+  touchThrottle?: boolean | TouchThrottleOptions
+  /**
+   * Option to collect the session writes made within a short window and send them in a
+   * single transaction, with a lease granted for each of them. Repeated writes of a
+   * session within the window collapse into the last one, a touch of a session waiting
+   * to be written joins it, and a get sends it right away before reading the session.
+   * The writes needing a transaction of their own, with the
+   * `userField`, `concurrency` or `chunking` options, are not batched.
+   *
+   * Defaults to `false`.
+   */
+  batching?: boolean | BatchingOptions
+  /**
+   * Maximum lifetime in seconds of a session since its creation, however often it is
+   * touched. `set` records the creation time at the session `createdAtField`, and every
+   * lease is capped at the lifetime left. `get` gives `null` once it is over.
+   */
+  absoluteTimeout?: number
+  /**
+   * Seconds without activity after which a session expires, used as the ttl of its lease
+   * instead of the `ttl` of the store or the cookie `maxAge`. Every session set or
+   * touched is marked as seen at `<prefix>:seen/<sid>` until its cookie expires, so `get`
+   * gives an `IdleTimeoutError` for the sessions expired this way, rather than `null`,
+   * and emits it as an `idle` event, since express-session treats it as a missing one.
+   */
+  idleTimeout?: number
+  /**
+   * Serializer used to write the sessions into etcd. Every value carries the name
+   * of the serializer that wrote it, so records written with the built-in ones or
+   * with the `serializers` listed below can still be read after changing it.
+   *
+   * Defaults to `jsonSerializer`.
+   */
+  serializer?: Serializer
+  /**
+   * Other custom serializers only used to read records written with them.
+   */
+  serializers?: Serializer[]
+  /**
+   * Option to encrypt the session values at rest with an authenticated cipher
+   * (AES-256-GCM). New values are encrypted with the current key, while the values
+   * written with any of the other listed keys can still be read.
+   *
+   * Values that can't be decrypted are given as a `DecryptionError`.
+   */
+  encryption?: EncryptionOptions
+  /**
+   * Option to compress the serialized sessions bigger than a threshold. The values
+   * written before enabling it are still read. The achieved compression ratio is
+   * logged with debug, so it can be used to tune the threshold.
+   *
+   * Defaults to `false`.
+   */
+  compression?: boolean | CompressionOptions
+  /**
+   * Option to keep the sessions read by `get` in an in-process LRU cache. It stays
+   * coherent by watching the prefix at etcd, evicting the sessions changed, destroyed
+   * or expired by any instance. Use `close()` to stop watching.
+   *
+   * Defaults to `false`.
+   */
+  cache?: boolean | CacheOptions
+  /**
+   * Option to watch the prefix at etcd and emit the `SessionEvent` of every session
+   * created, updated, destroyed or expired by any instance. Use `close()` to stop watching.
+   *
+   * Defaults to `false`.
+   */
+  events?: boolean
+  /**
+   * Name of the session field holding the ID of its user, like `userId` or a dotted
+   * path like `passport.user`. When set, the store keeps an index of the sessions of
+   * every user at `<prefix>:users/<userId>/<sid>`, bound to the same lease of the
+   * session, enabling `sessionsForUser` and `destroyUserSessions`.
+   */
+  userField?: string
+  /**
+   * Option to prevent the lost updates of a session written by concurrent requests.
+   * `get` records the revision of the session read at its `revisionField`, and `set`
+   * only writes the session if it was not changed since then. Otherwise the conflict
+   * is resolved with the `merge` function, or the write fails with a `ConflictError`.
+   *
+   * Defaults to `false`.
+   */
+  concurrency?: boolean | ConcurrencyOptions
+  /**
+   * Instrumentation hook recording the count, errors and duration of the operations,
+   * the size of the session values and the leases granted. `PrometheusMetrics` is a
+   * ready-made one exporting them in the Prometheus text format.
+   */
+  metrics?: StoreMetrics
+  /**
+   * Option to retry the operations failed while etcd is unavailable, to fail fast with a
+   * circuit breaker once it looks down, and to serve the sessions from a fallback store
+   * meanwhile. The circuit breaker transitions are emitted as `circuit` events.
+   *
+   * Defaults to `false`.
+   */
+  resilience?: ResilienceOptions
+  /**
+   * Option to check the sessions read have a `cookie` object, and pass the `validator`
+   * if any. The invalid or unparseable ones are treated as missing, and moved under
+   * `<prefix>:quarantine/` for inspection until their `retention` is over, emitting a
+   * `quarantined` event.
+   *
+   * Defaults to `false`.
+   */
+  validation?: boolean | ValidationOptions
+  /**
+   * Option to split the session values over the chunk size across
+   * `<prefix>/<sid>/<generation>/<n>` keys, bound to the lease of the session, so they
+   * are not refused by etcd. Enable it once all the instances of the store can read
+   * them. The session events of the chunked values are emitted without their session.
+   *
+   * Defaults to `false`.
+   */
+  chunking?: boolean | ChunkingOptions
+  /**
+   * Option to record the time of every `set` at the session `updatedAtField`, given as
+   * the `updatedAt` of its versions by `history`. The versions themselves are kept by
+   * etcd without it, until its compaction.
+   *
+   * Defaults to `false`.
+   */
+  history?: boolean
+}
+
+/**
+ * Function resolving the prefix of the session with the given ID (`sid`). The `session`
+ * is only given when it is being written, while reads and deletes only know the `sid`,
+ * so both must resolve the same prefix.
+ */
+export type PrefixResolver = (sid: string, session?: Express.SessionData) => string
+
+/**
+ * Names of the session lifecycle events emitted by the store.
+ */
+export type SessionEventName = 'created' | 'updated' | 'destroyed' | 'expired'
+
+/**
+ * Session lifecycle event, as emitted by the store when the `events` option is enabled.
+ */
+export interface SessionEvent {
+  sid: string
+  /**
+   * The new session when it was created or updated, or the last known one
+   * when it was destroyed or expired, if available.
+   */
+  session?: Express.SessionData
+}
+
+/**
+ * Session found while iterating over the store, with its session ID.
+ */
+export interface SessionEntry<S extends Express.SessionData = Express.SessionData> {
+  sid: string
+  session: S
+}
+
+/**
+ * Options of the iteration over all the sessions.
+ */
+export interface IterateOptions {
+  /**
+   * Number of sessions read from etcd at once.
+   *
+   * Defaults to `100`.
+   */
+  batchSize?: number
+}
+
+/**
+ * Default number of sessions read at once while iterating.
+ */
+export const defaultBatchSize = 100
+
+/**
+ * Promise based API of the store, resolving with sessions of the shape `S`.
+ */
+export interface Etcd3StorePromises<S extends Express.SessionData = Express.SessionData> {
+  get(sid: string): Promise<S | null>
+  set(sid: string, session: S): Promise<void>
+  touch(sid: string, session: S): Promise<void>
+  all(): Promise<{ [sid: string]: S }>
+  length(): Promise<number>
+  destroy(sid: string): Promise<void>
+  destroyMany(sids: string[]): Promise<string[]>
+  clear(): Promise<void>
+  sessionsForUser(userId: string): Promise<{ [sid: string]: S }>
+  destroyUserSessions(userId: string): Promise<void>
 }
 
 /**
  * Default configuration values for the etcd v3 options
  */
-export const defaultOptions: Etcd3StoreOptions = Object.freeze({
+export const defaultOptions: Etcd3StoreOptions & { prefix: string } = Object.freeze({
   prefix: 'sess',
+  rootPrefix: 'sess/',
   hosts: '127.0.0.1:2379',
-  skipTouch: false
+  skipTouch: false,
+  serializer: jsonSerializer
 })
 
 /**
@@ -53,9 +369,73 @@ export const defaultOptions: Etcd3StoreOptions = Object.freeze({
  *     resave: false
  * }));
  * ```
+ *
+ * All the callback methods are also available returning promises at `store.promises`,
+ * typed with the session shape `S`:
+ *
+ * ```
+ * const store = new Etcd3Store<MySession>(options);
+ * const session = await store.promises.get(sid);
+ * ```
  */
-export default class Etcd3Store extends Store {
+export default class Etcd3Store<S extends Express.SessionData = Express.SessionData> extends Store {
   private debug = debug('express-session:etcd3')
+  private encryptor = this.config.encryption ? new Encryptor(this.config.encryption) : undefined
+  private cache = this.config.cache
+    ? new SessionCache<IKeyValue>(this.config.cache === true ? {} : this.config.cache)
+    : undefined
+  private concurrency: ConcurrencyOptions | undefined = this.config.concurrency
+    ? {
+        ...defaultConcurrencyOptions,
+        ...(this.config.concurrency === true ? {} : this.config.concurrency)
+      }
+    : undefined
+  private resilience = this.config.resilience
+    ? new Resilience(this.config.resilience, event => {
+        this.debug('CIRCUIT %s -> %s', event.from, event.to)
+        this.emit('circuit', event)
+      })
+    : undefined
+  private validation = this.config.validation === true ? {} : this.config.validation || undefined
+  private chunking = this.config.chunking
+    ? {
+        ...defaultChunkingOptions,
+        ...(this.config.chunking === true ? {} : this.config.chunking)
+      }
+    : undefined
+  private touches = this.config.touchThrottle
+    ? new TouchThrottle(this.config.touchThrottle === true ? {} : this.config.touchThrottle)
+    : undefined
+  private batcher = this.config.batching
+    ? new WriteBatcher<SessionWrite>(
+        writes => this.writeBatch(writes),
+        this.config.batching === true ? {} : this.config.batching
+      )
+    : undefined
+  private watcher?: Promise<Watcher>
+
+  /**
+   * Time to live of the sessions in seconds, set on the store instance, used instead of
+   * the `maxAge` of their cookie. A function gets the store, session and `sid`.
+   */
+  ttl?: number | string | ((store: Etcd3Store<S>, sess: Express.SessionData, sid: string) => number)
+
+  /**
+   * Promise based API of the store, sharing the same code path of the callback methods.
+   */
+  readonly promises: Etcd3StorePromises<S> = {
+    get: sid => this.promisify<S | null>(cb => this.get(sid, cb)),
+    set: (sid, session) => this.promisify<void>(cb => this.set(sid, session, cb)),
+    touch: (sid, session) => this.promisify<void>(cb => this.touch(sid, session, cb)),
+    all: () => this.promisify<{ [sid: string]: S }>(cb => this.all(cb)),
+    length: () => this.promisify<number>(cb => this.length(cb)),
+    destroy: sid => this.promisify<void>(cb => this.destroy(sid, cb)),
+    destroyMany: sids => this.promisify<string[]>(cb => this.destroyMany(sids, cb)),
+    clear: () => this.promisify<void>(cb => this.clear(cb)),
+    sessionsForUser: userId =>
+      this.promisify<{ [sid: string]: S }>(cb => this.sessionsForUser(userId, cb)),
+    destroyUserSessions: userId => this.promisify<void>(cb => this.destroyUserSessions(userId, cb))
+  }
 
   constructor(
     private config: Etcd3StoreOptions = defaultOptions,
@@ -63,6 +443,25 @@ export default class Etcd3Store extends Store {
   ) {
     super(config)
     this.debug('init config: %O', config)
+    if (typeof config.prefix === 'function' && !this.rootKey().endsWith('/')) {
+      throw new TypeError('The `rootPrefix` option must end with "/".')
+    }
+    if (this.cache) this.watchCache(this.cache)
+    if (config.events) this.watchEvents()
+  }
+
+  /**
+   * Listen to the session lifecycle events, emitted when the `events` option is enabled,
+   * to the `circuit` breaker transitions, to the `quarantined` sessions and to the
+   * sessions read after they expired being `idle`.
+   */
+  on(event: SessionEventName, listener: (event: SessionEvent) => void): this
+  on(event: 'circuit', listener: (event: CircuitEvent) => void): this
+  on(event: 'quarantined', listener: (event: QuarantineEvent) => void): this
+  on(event: 'idle', listener: (event: IdleEvent) => void): this
+  on(event: string | symbol, listener: (...args: any[]) => void): this
+  on(event: string | symbol, listener: (...args: any[]) => void): this {
+    return super.on(event, listener)
   }
 
   /**
@@ -74,18 +473,11 @@ export default class Etcd3Store extends Store {
    * case is made when `error.code === 'ENOENT'` to act like `callback(null, null)`.
    */
   get = (sid: string, callback: (err: any, session: Express.SessionData) => void): void => {
-    this.debug('GET "%s"', sid)
-    try {
-      this.client
-        .get(this.key(sid))
-        .json()
-        .then(
-          val => this.callbackWithLog(callback, null, val),
-          err => this.callbackWithLog(callback, err)
-        )
-    } catch (err) {
-      this.callbackWithLog(callback, err)
-    }
+    this.resilient(
+      done => this.getSession(sid, done),
+      (fallback, done) => fallback.get(sid, done),
+      this.measure('get', callback)
+    )
   }
 
   /**
@@ -94,23 +486,11 @@ export default class Etcd3Store extends Store {
    * called as `callback(error)` once the session has been set in the store.
    */
   set = (sid: string, session: Express.SessionData, callback: (err: any) => void): void => {
-    const ttl = this.getTTL(session, sid)
-    this.debug('SET "%s" ttl:%s %O', sid, ttl, session)
-    try {
-      const leasing = this.client.lease(ttl)
-      leasing
-        .put(this.key(sid))
-        .value(JSON.stringify(session))
-        .then(
-          () => {
-            leasing.release()
-            this.callbackWithLog(callback)
-          },
-          err => this.callbackWithLog(callback, err)
-        )
-    } catch (err) {
-      callback(err)
-    }
+    this.resilient(
+      done => this.setSession(sid, session, done),
+      (fallback, done) => fallback.set(sid, session, done),
+      this.measure('set', callback)
+    )
   }
 
   /**
@@ -123,27 +503,46 @@ export default class Etcd3Store extends Store {
    * potentially resetting the idle timer.
    */
   touch = (sid: string, session: Express.SessionData, callback: (err: any) => void): void => {
+    const done = this.measure('touch', callback)
     if (this.config.skipTouch) {
       this.debug('SKIP TOUCH "%s"', sid)
-      callback(null)
+      done(null)
       return
     }
-    this.debug('TOUCH "%s" %O', sid, session)
-    this.set(sid, session, callback)
+    this.resilient(
+      cb => this.touchSession(sid, session, cb),
+      (fallback, cb) => (fallback.touch ? fallback.touch(sid, session, cb) : cb(null)),
+      done
+    )
   }
 
   /**
-   * This method is used to get all sessions in the store as an array. The
-   * `callback` should be called as `callback(error, sessions)`.
+   * This method is used to get all sessions in the store as an object keyed by their
+   * session IDs. The `callback` should be called as `callback(error, sessions)`.
+   * With a `prefix` function, it gets the sessions of all the prefixes.
+   *
+   * All the sessions are loaded in memory at once, use `iterate` for large stores.
    */
   all = (callback: (err: any, obj: { [sid: string]: Express.SessionData }) => void): void => {
     this.debug('ALL')
     try {
       this.client
         .getAll()
-        .prefix(this.key())
-        .json()
-        .then(json => Object.values(json))
+        .prefix(this.rootKey())
+        .exec()
+        .then(res =>
+          Promise.all(res.kvs.filter(kv => this.parseKey(kv.key)).map(kv => this.assembleValid(kv)))
+        )
+        .then(kvs => {
+          const sessions: { [sid: string]: Express.SessionData } = {}
+          kvs.forEach(kv => {
+            const session = kv && this.decodeValid(kv)
+            if (kv && session && this.lifetime(session) > 0) {
+              sessions[this.parseKey(kv.key)!.sid] = session
+            }
+          })
+          return sessions
+        })
         .then(
           val => this.callbackWithLog(callback, null, val),
           err => this.callbackWithLog(callback, err)
@@ -153,21 +552,50 @@ export default class Etcd3Store extends Store {
     }
   }
 
+  /**
+   * Iterate over all the sessions in the store, reading them from etcd in pages of
+   * `batchSize` sessions ordered by their keys. The sessions changed while iterating
+   * may or may not be seen. Use `for await` since Node.js 10, or its `next` method on
+   * the older versions.
+   *
+   * ```
+   * for await (const { sid, session } of store.iterate({ batchSize: 500 })) {
+   *   console.log(sid, session);
+   * }
+   * ```
+   */
+  iterate(options: IterateOptions = {}): AsyncIterableIterator<SessionEntry<S>> {
+    const entries = this.scan(options)
+    return asyncIterator(async () => {
+      while (true) {
+        const { done, value } = await entries.next()
+        if (done) return { done, value: undefined as any }
+        const session = this.decodeValid(value.kv)
+        if (session && this.lifetime(session) > 0) {
+          return { done, value: { sid: value.sid, session: session as S } }
+        }
+      }
+    })
+  }
+
   /**
    * This method is used to get the count of all sessions in the store.
-   * The `callback` should be called as `callback(error, len)`.
+   * The `callback` should be called as `callback(error, len)`. With a `prefix`
+   * function, it counts the sessions of all the prefixes.
    */
   length = (callback: (err: any, length: number) => void): void => {
     this.debug('LENGTH')
     try {
-      this.client
-        .getAll()
-        .prefix(this.key())
-        .count()
-        .then(
-          val => this.callbackWithLog(callback, null, val),
-          err => this.callbackWithLog(callback, err)
-        )
+      const range = this.client.getAll().prefix(this.rootKey())
+      const counting: Promise<number> = this.config.absoluteTimeout
+        ? this.promises.all().then(sessions => Object.keys(sessions).length)
+        : typeof this.config.prefix === 'function' || this.chunking
+        ? range.keys().then(keys => keys.filter(key => this.parseKey(key)).length)
+        : range.count()
+      counting.then(
+        val => this.callbackWithLog(callback, null, val),
+        err => this.callbackWithLog(callback, err)
+      )
     } catch (err) {
       this.callbackWithLog(callback, err)
     }
@@ -179,60 +607,1545 @@ export default class Etcd3Store extends Store {
    * once the session is destroyed.
    */
   destroy = (sid: string, callback: (err: any) => void): void => {
-    this.debug('DESTROY')
+    this.resilient(
+      done => this.destroySession(sid, done),
+      (fallback, done) => fallback.destroy(sid, done),
+      this.measure('destroy', callback)
+    )
+  }
+
+  /**
+   * This method is used to destroy the sessions with the given IDs (`sids`) in a single
+   * transaction, bounded by the max operations per transaction of etcd (128 by default).
+   * The `callback` should be called as `callback(error, destroyed)` with the IDs of
+   * the sessions that existed.
+   */
+  destroyMany = (sids: string[], callback: (err: any, destroyed: string[]) => void): void => {
+    this.debug('DESTROY MANY %O', sids)
     try {
-      this.client
-        .delete()
-        .prefix(this.key(sid))
-        .then(() => this.callbackWithLog(callback), err => this.callbackWithLog(callback, err))
+      const unique = sids.filter((sid, i) => sids.indexOf(sid) === i)
+      const deletes: IRequestOp[] = unique.map(sid => ({
+        request_delete_range: { key: Buffer.from(this.key(sid)), prev_kv: true }
+      }))
+      if (this.chunking) {
+        unique.forEach(sid => {
+          const chunks = Range.prefix(this.key(sid) + '/')
+          deletes.push({
+            request_delete_range: {
+              key: chunks.start,
+              range_end: chunks.end,
+              prev_kv: !!this.config.userField
+            }
+          })
+        })
+      }
+      if (this.config.idleTimeout) {
+        unique.forEach(sid => {
+          deletes.push({ request_delete_range: { key: Buffer.from(this.seenKey(sid)) } })
+        })
+      }
+      const destroying = this.flushWrites().then<IKeyValue[]>(() =>
+        unique.length
+          ? this.client
+              .if(this.key(unique[0]), 'Version', '>', -1)
+              .then(...deletes)
+              .commit()
+              .then(res =>
+                res.responses.reduce(
+                  (kvs: IKeyValue[], op) => kvs.concat(op.response_delete_range.prev_kvs),
+                  []
+                )
+              )
+          : []
+      )
+      destroying
+        .then(kvs => {
+          unique.forEach(sid => this.forget(this.key(sid)))
+          const sessions = kvs.filter(kv => this.parseKey(kv.key))
+          const deleting: Promise<any> = this.config.userField
+            ? this.deleteIndexEntries(sessions, kvs)
+            : Promise.resolve()
+          return deleting.then(() => sessions.map(kv => this.parseKey(kv.key)!.sid))
+        })
+        .then(
+          val => this.callbackWithLog(callback, null, val),
+          err => this.callbackWithLog(callback, err)
+        )
     } catch (err) {
-      callback(err)
+      this.callbackWithLog(callback, err)
     }
   }
 
   /**
    * This method is used to delete all sessions from the store. The `callback`
-   * should be called as `callback(error)` once the store is cleared.
+   * should be called as `callback(error)` once the store is cleared. With a `prefix`
+   * function, it deletes everything under the `rootPrefix`.
    */
   clear = (callback: (err: any) => void): void => {
     this.debug('CLEAR')
     try {
-      this.client
-        .delete()
-        .prefix(this.key())
-        .then(() => this.callbackWithLog(callback), err => this.callbackWithLog(callback, err))
+      const deletes =
+        typeof this.config.prefix === 'function'
+          ? [this.client.delete().prefix(this.rootKey())]
+          : [
+              this.client.delete().prefix(this.rootKey()),
+              this.client.delete().prefix(this.userKey()),
+              this.client.delete().prefix(this.seenKey())
+            ]
+      this.flushWrites()
+        .then(() => Promise.all(deletes))
+        .then(
+          () => {
+            if (this.cache) this.cache.clear()
+            if (this.touches) this.touches.clear()
+            this.callbackWithLog(callback)
+          },
+          err => this.callbackWithLog(callback, err)
+        )
     } catch (err) {
       this.callbackWithLog(callback, err)
     }
   }
 
   /**
-   * Build the etcd key with the right prefix and the givin session ID (`sid`)
+   * This method is used to get all sessions of the user with the given ID (`userId`),
+   * as an object keyed by their session IDs. The `callback` should be called as
+   * `callback(error, sessions)`. It requires the `userField` option and a static prefix.
+   */
+  sessionsForUser = (
+    userId: string,
+    callback: (err: any, sessions: { [sid: string]: Express.SessionData }) => void
+  ): void => {
+    this.debug('SESSIONS FOR USER "%s"', userId)
+    try {
+      this.userSids(userId)
+        .then(sids =>
+          Promise.all(
+            sids.map(sid =>
+              this.fetch(sid)
+                .then(kv => this.assembleValid(kv))
+                .then(kv => (kv ? this.decodeValid(kv) : null))
+            )
+          ).then(sessions => {
+            const result: { [sid: string]: Express.SessionData } = {}
+            sessions.forEach((session, i) => {
+              if (session && this.lifetime(session) > 0) result[sids[i]] = session
+            })
+            return result
+          })
+        )
+        .then(
+          val => this.callbackWithLog(callback, null, val),
+          err => this.callbackWithLog(callback, err)
+        )
+    } catch (err) {
+      this.callbackWithLog(callback, err)
+    }
+  }
+
+  /**
+   * This method is used to destroy all sessions of the user with the given ID
+   * (`userId`) in a single transaction, like when its password changes. The `callback`
+   * should be called as `callback(error)` once the sessions are destroyed. It requires
+   * the `userField` option and a static prefix.
    */
-  private key(sid = ''): string {
-    return (this.config.prefix || defaultOptions.prefix) + '/' + sid
+  destroyUserSessions = (userId: string, callback: (err: any) => void): void => {
+    this.debug('DESTROY USER SESSIONS "%s"', userId)
+    try {
+      this.flushWrites()
+        .then(() => this.userSids(userId))
+        .then(sids => {
+          if (!sids.length) return
+          const deletes = sids.map(sid => this.client.delete().key(this.key(sid)))
+          if (this.chunking) {
+            sids.forEach(sid => deletes.push(this.client.delete().prefix(this.key(sid) + '/')))
+          }
+          if (this.config.idleTimeout) {
+            sids.forEach(sid => deletes.push(this.client.delete().key(this.seenKey(sid))))
+          }
+          return this.client
+            .if(this.userKey(userId), 'Version', '>', -1)
+            .then(...deletes, this.client.delete().prefix(this.userKey(userId)))
+            .commit()
+            .then(() => sids.forEach(sid => this.forget(this.key(sid))))
+        })
+        .then(
+          () => this.callbackWithLog(callback),
+          err => this.callbackWithLog(callback, err)
+        )
+    } catch (err) {
+      this.callbackWithLog(callback, err)
+    }
   }
 
   /**
-   * Get the Time to Live (`ttl`) of the session
+   * Get the store of the sessions under one of the prefixes resolved by the `prefix`
+   * function, like the ones of a tenant. It shares the etcd client of this store,
+   * without its cache and events.
    */
-  private getTTL(sess: Express.SessionData, sid: string): number {
-    const rawTTL = this.getRawTTL(sess, sid)
-    return rawTTL > maxTTL ? maxTTL : rawTTL
+  scope(prefix: string): Etcd3Store<S> {
+    if (typeof this.config.prefix !== 'function') {
+      throw new TypeError('The `prefix` option is not a function.')
+    }
+    const config = { ...this.config, prefix: this.checkPrefix(prefix), cache: false, events: false }
+    const store = new Etcd3Store<S>(config, this.client)
+    store.ttl = this.ttl
+    return store
   }
 
   /**
-   * Get the raw Time to Live (`ttl`) of the session from the data sources
+   * Get the hit and miss counters of the local cache, if it is enabled.
    */
-  private getRawTTL(sess: Express.SessionData, sid: string): number {
-    const storeTtl: any = (this as any)['ttl']
-    if (typeof storeTtl === 'number') return storeTtl
-    if (typeof storeTtl === 'string') return Number(storeTtl)
-    if (typeof storeTtl === 'function') return storeTtl(this, sess, sid)
-    if (storeTtl) throw new TypeError('`store.ttl` must be a number or function.')
+  getCacheStats(): CacheStats | undefined {
+    return this.cache && this.cache.stats()
+  }
 
-    const maxAge = sess.cookie.maxAge
-    return typeof maxAge === 'number' ? Math.floor(maxAge / 1000) : oneDay
+  /**
+   * Get the remaining time to live in seconds of the session lease, `Infinity` if it is
+   * not bound to a lease, or `null` if there is no session with this ID (`sid`).
+   */
+  timeToLive(sid: string, session?: Express.SessionData): Promise<number | null> {
+    return this.client
+      .get(this.key(sid, session))
+      .exec()
+      .then<number | null>(res => {
+        const kv = res.kvs[0]
+        return kv ? this.leaseTTL(kv) : null
+      })
+  }
+
+  /**
+   * Write all the sessions into the stream as NDJSON, one `SessionRecord` per line with
+   * the remaining time to live of its lease. It resolves with the number of sessions.
+   *
+   * ```
+   * await store.exportSessions(fs.createWriteStream('sessions.ndjson'));
+   * ```
+   */
+  async exportSessions(stream: NodeJS.WritableStream, options?: IterateOptions): Promise<number> {
+    let count = 0
+    await forEachAsync(this.scan(options || {}), async ({ sid, kv }) => {
+      const ttl = await this.leaseTTL(kv)
+      const session = ttl > 0 && this.decodeValid(kv)
+      if (!session || !(this.lifetime(session) > 0)) return
+      await writeLine(stream, formatRecord({ sid, session, ttl: ttl === Infinity ? null : ttl }))
+      count++
+    })
+    this.debug('EXPORTED %d sessions', count)
+    return count
+  }
+
+  /**
+   * Read the sessions from the NDJSON stream written by `exportSessions`, or by any other
+   * source following the `SessionRecord` format, binding them to new leases with their
+   * remaining time to live. The records that already expired are skipped.
+   */
+  async importSessions(
+    stream: NodeJS.ReadableStream,
+    options: ImportOptions = {}
+  ): Promise<ImportResult> {
+    const { mode = 'overwrite' } = options
+    if (mode !== 'overwrite' && mode !== 'merge') {
+      throw new RangeError(`Unknown import mode "${mode}".`)
+    }
+    const result: ImportResult = { imported: 0, existing: 0, expired: 0 }
+    await readRecords(stream, async ({ sid, session, ttl }) => {
+      if ((typeof ttl === 'number' && ttl <= 0) || this.lifetime(session) <= 0) {
+        result.expired++
+        return
+      }
+      session = withoutRevision(session)
+      const key = this.key(sid, session)
+      if (mode === 'merge' && (await this.client.get(key).exec()).kvs.length) {
+        result.existing++
+        return
+      }
+      this.debug('IMPORT "%s" ttl:%s', sid, ttl)
+      const leaseTTL =
+        typeof ttl === 'number'
+          ? Math.min(Math.ceil(ttl), maxTTL, Math.ceil(this.lifetime(session)))
+          : undefined
+      await this.writeSession(sid, session, leaseTTL || this.getTTL(session, sid))
+      result.imported++
+    })
+    this.debug('IMPORTED %O', result)
+    return result
+  }
+
+  /**
+   * Check etcd is reachable, has a leader, answers in time and lets the store write at
+   * its prefix. It bypasses the `resilience` option, to tell the actual state of etcd.
+   */
+  healthCheck(options?: HealthCheckOptions): Promise<HealthStatus> {
+    this.debug('HEALTH CHECK')
+    return checkHealth(this.client, this.probeKey(), options).then(status => {
+      this.debug('HEALTH %s %O', status.healthy ? 'OK' : 'FAILED', status.checks)
+      return status
+    })
+  }
+
+  /**
+   * Run the function while holding the lock of the session at etcd, so it never runs
+   * concurrently for the same session across all the instances. The lock is released
+   * once the function is done, or expires after its `ttl` if this process crashes.
+   * Fails with a `SessionLockError` when the lock is still held after the `timeout`.
+   */
+  withSessionLock<T>(sid: string, fn: () => T | Promise<T>, options?: LockOptions): Promise<T> {
+    return this.lockSession(sid, options).then(release =>
+      Promise.resolve()
+        .then(fn)
+        .then(
+          value => release().then(() => value),
+          err =>
+            release().then(() => {
+              throw err
+            })
+        )
+    )
+  }
+
+  /**
+   * Acquire the lock of the session at etcd, resolving with the function releasing it.
+   * Prefer `withSessionLock` or the `sessionLock` middleware, releasing it for you.
+   */
+  lockSession(sid: string, options?: LockOptions): Promise<() => Promise<void>> {
+    this.debug('LOCK "%s"', sid)
+    return acquireLock(this.client, this.lockKey(sid), sid, options).then(lease => (): Promise<
+      void
+    > => {
+      this.debug('UNLOCK "%s"', sid)
+      return lease.revoke().then(
+        () => undefined,
+        err => this.debug('ERR unlocking "%s" %O', sid, err)
+      )
+    })
+  }
+
+  /**
+   * Get the previous versions of the session kept by etcd, from the most recent one,
+   * with the revisions where they were written. A session destroyed or expired has no
+   * history, and the history of a session created again starts at its new creation.
+   *
+   * etcd only keeps the revisions since its last compaction, like the ones of the last
+   * hour with `--auto-compaction-retention=1`, so the older versions are not given.
+   */
+  async history(sid: string, options: HistoryOptions = {}): Promise<Array<SessionVersion<S>>> {
+    const { limit = defaultHistoryLimit } = options
+    if (!(limit >= 1) || Math.floor(limit) !== limit) {
+      throw new RangeError('The `limit` must be a positive integer.')
+    }
+    this.debug('HISTORY "%s" limit:%d', sid, limit)
+    const key = this.key(sid)
+    const versions: Array<SessionVersion<S>> = []
+    let kv: IKeyValue | undefined = (await this.client.get(key).exec()).kvs[0]
+    while (kv && versions.length < limit) {
+      versions.push(await this.readVersion(kv))
+      if (kv.version === '1') break
+      const previous: string = String(Number(kv.mod_revision) - 1)
+      try {
+        kv = (
+          await this.client
+            .get(key)
+            .revision(previous)
+            .exec()
+        ).kvs[0]
+      } catch (err) {
+        if (!isCompactedError(err)) throw err
+        this.debug('HISTORY "%s" compacted at revision %s', sid, previous)
+        break
+      }
+    }
+    return versions
+  }
+
+  /**
+   * Write back the version of the session at the given revision of its `history`, bound
+   * to a new lease. Fails with a `CompactedRevisionError` when etcd already compacted
+   * the revision.
+   */
+  async restore(sid: string, revision: string | number): Promise<S> {
+    this.debug('RESTORE "%s" revision:%s', sid, revision)
+    const key = this.key(sid)
+    let kv: IKeyValue | undefined
+    try {
+      kv = (
+        await this.client
+          .get(key)
+          .revision(revision)
+          .exec()
+      ).kvs[0]
+    } catch (err) {
+      if (!isCompactedError(err)) throw err
+      throw new CompactedRevisionError(
+        `The revision ${revision} of the session "${sid}" was compacted by etcd.`,
+        String(revision)
+      )
+    }
+    if (!kv) throw new RangeError(`The session "${sid}" has no version at revision ${revision}.`)
+    const manifest = readManifest(kv.value)
+    const value = manifest ? await this.readChunks(key, manifest, kv.mod_revision) : kv.value
+    if (!value) throw new InvalidSessionError(`The chunks of the session "${key}" are missing.`)
+    const session = withoutRevision(this.decode(value, key)!) as S
+    if (this.config.history) session[updatedAtField] = Date.now()
+    await this.writeSession(sid, session, this.getTTL(session, sid))
+    return session
+  }
+
+  /**
+   * Stop watching the sessions at etcd, and send the batched writes still pending. The
+   * local cache is not used and the session events are not emitted anymore after it.
+   */
+  close(): Promise<void> {
+    const watcher = this.watcher
+    this.watcher = undefined
+    if (this.cache) this.cache.deactivate()
+    const cancelling = watcher ? watcher.then(w => w.cancel()) : undefined
+    return Promise.all([this.flushWrites(), cancelling]).then(() => undefined)
+  }
+
+  /**
+   * Scan the keys of all the sessions in pages of the batch size.
+   */
+  private scan(options: IterateOptions): AsyncIterableIterator<{ sid: string; kv: IKeyValue }> {
+    const { batchSize = defaultBatchSize } = options
+    const range = Range.prefix(this.rootKey())
+    let start = range.start
+    let kvs: IKeyValue[] = []
+    let more = true
+    return asyncIterator(async () => {
+      if (!(batchSize >= 1) || Math.floor(batchSize) !== batchSize) {
+        throw new RangeError('The `batchSize` must be a positive integer.')
+      }
+      while (true) {
+        const kv = kvs.shift()
+        if (!kv) {
+          if (!more) return { done: true, value: undefined as any }
+          this.debug('ITERATE from "%s"', start)
+          const res = await this.client
+            .getAll()
+            .inRange(new Range(start, range.end))
+            .limit(batchSize)
+            .exec()
+          kvs = res.kvs
+          more = res.more && res.kvs.length > 0
+          if (more) start = Buffer.concat([res.kvs[res.kvs.length - 1].key, Buffer.from([0])])
+          continue
+        }
+        const parsed = this.parseKey(kv.key)
+        const assembled = parsed && (await this.assembleValid(kv))
+        if (parsed && assembled) return { done: false, value: { sid: parsed.sid, kv: assembled } }
+      }
+    })
+  }
+
+  /**
+   * Get the session from etcd.
+   */
+  private getSession(sid: string, callback: (err: any, session: Express.SessionData) => void) {
+    this.debug('GET "%s"', sid)
+    try {
+      this.fetch(sid)
+        .then(kv => (kv || !this.config.idleTimeout ? this.assembleValid(kv) : this.checkIdle(sid)))
+        .then(kv => {
+          if (kv) this.record(metrics => metrics.payload('get', kv.value.length))
+          const session = this.read(kv)
+          if (!session || this.lifetime(session) > 0) return session
+          this.debug('LIFETIME OVER "%s"', sid)
+          return null
+        })
+        .then(
+          val => this.callbackWithLog(callback, null, val),
+          err => this.callbackWithLog(callback, err)
+        )
+    } catch (err) {
+      this.callbackWithLog(callback, err)
+    }
+  }
+
+  /**
+   * Put the session into etcd, bound to a lease with its ttl.
+   */
+  private setSession(sid: string, session: Express.SessionData, callback: (err: any) => void) {
+    try {
+      if (this.config.absoluteTimeout) stampCreatedAt(session)
+      if (this.config.history) session[updatedAtField] = Date.now()
+      if (this.lifetime(session) <= 0) return this.expireSession(sid, callback)
+      const ttl = this.getTTL(session, sid)
+      this.debug('SET "%s" ttl:%s %O', sid, ttl, session)
+      this.writeSession(sid, session, ttl).then(
+        () => this.callbackWithLog(callback),
+        err => this.callbackWithLog(callback, err)
+      )
+    } catch (err) {
+      this.callbackWithLog(callback, err)
+    }
+  }
+
+  /**
+   * Write the session bound to a new lease with the given ttl, along its user index entry.
+   */
+  private writeSession(sid: string, session: Express.SessionData, ttl: number): Promise<void> {
+    const key = this.key(sid, session)
+    const value = this.encode(session, key)
+    this.record(metrics => metrics.payload('set', value.length))
+    this.evict(key)
+    const transacted = this.config.userField || this.concurrency || this.chunking
+    let leasing: Lease | undefined
+    let writing: PromiseLike<any>
+    if (this.batcher && !transacted) {
+      writing = this.batcher.add(key, { key, value, ttl })
+    } else {
+      leasing = this.client.lease(ttl)
+      this.record(metrics => metrics.leaseGranted())
+      writing = transacted
+        ? this.putSession(leasing, sid, session, value)
+        : leasing.put(key).value(value)
+    }
+    const marking = this.config.idleTimeout ? this.markSeen(sid, session) : undefined
+    return Promise.all([writing, marking]).then(
+      () => {
+        if (leasing) leasing.release()
+        this.evict(key)
+        if (this.touches) this.touches.refreshed(key, ttl)
+      },
+      err => {
+        if (leasing) this.dropLease(leasing, err)
+        throw err
+      }
+    )
+  }
+
+  /**
+   * Stop keeping alive the lease of a failed write. The lease of a conflicting write
+   * holds no session, so it is revoked right away instead of waiting for its ttl.
+   */
+  private dropLease(leasing: Lease, err: any) {
+    if (!(err instanceof ConflictError)) return leasing.release()
+    leasing.revoke().then(
+      () => this.debug('REVOKED the lease of the conflicting write'),
+      revokeErr => this.debug('ERR revoking the lease of the conflicting write %O', revokeErr)
+    )
+  }
+
+  /**
+   * Send the batched writes still pending, before the sessions are destroyed.
+   */
+  private flushWrites(): Promise<void> {
+    return this.batcher ? this.batcher.flush() : Promise.resolve()
+  }
+
+  /**
+   * Put the batch of session values in a single transaction, each bound to a lease of
+   * its own, so touching a session never keeps alive the other ones of its batch.
+   */
+  private writeBatch(writes: SessionWrite[]): Promise<void> {
+    this.debug('BATCH %d writes', writes.length)
+    return Promise.all(writes.map(({ ttl }) => this.client.leaseClient.leaseGrant({ TTL: ttl })))
+      .then(grants => {
+        grants.forEach(() => this.record(metrics => metrics.leaseGranted()))
+        const puts: IRequestOp[] = writes.map(({ key, value }, i) => ({
+          request_put: { key: Buffer.from(key), value, lease: grants[i].ID }
+        }))
+        return this.client
+          .if(writes[0].key, 'Version', '>', -1)
+          .then(...puts)
+          .commit()
+      })
+      .then(() => writes.forEach(({ key }) => this.evict(key)))
+  }
+
+  /**
+   * Refresh the lease of the session at etcd, setting it again if there is none.
+   */
+  private touchSession(sid: string, session: Express.SessionData, callback: (err: any) => void) {
+    try {
+      if (this.lifetime(session) <= 0) return this.expireSession(sid, callback)
+      const ttl = this.getTTL(session, sid)
+      const key = this.key(sid, session)
+      if (this.touches && !this.touches.due(key, ttl)) {
+        this.debug('THROTTLE TOUCH "%s"', sid)
+        return this.callbackWithLog(callback)
+      }
+      const joined = this.batcher && this.batcher.join(key)
+      if (joined) {
+        this.debug('TOUCH "%s" joined its batched write', sid)
+        joined.then(
+          () => this.callbackWithLog(callback),
+          err => this.callbackWithLog(callback, err)
+        )
+        return
+      }
+      this.debug('TOUCH "%s" ttl:%s', sid, ttl)
+      this.client
+        .get(key)
+        .exec()
+        .then(res => this.refreshLease(res.kvs[0], ttl))
+        .then(refreshed =>
+          refreshed && this.config.idleTimeout
+            ? this.touchSeen(sid, session).then(() => refreshed)
+            : refreshed
+        )
+        .then(
+          refreshed => {
+            if (refreshed && this.touches) this.touches.refreshed(key, ttl)
+            if (refreshed) return this.callbackWithLog(callback)
+            this.debug('NO LEASE TO REFRESH "%s", setting it again', sid)
+            this.set(sid, session, callback)
+          },
+          err => this.callbackWithLog(callback, err)
+        )
+    } catch (err) {
+      this.callbackWithLog(callback, err)
+    }
+  }
+
+  /**
+   * Tell apart the missing session that expired after being idle, marked as seen, with
+   * an `IdleTimeoutError`, from the one that never existed.
+   */
+  private checkIdle(sid: string): Promise<undefined> {
+    return this.client
+      .get(this.seenKey(sid))
+      .exec()
+      .then(res => {
+        if (!res.kvs.length) return undefined
+        this.debug('IDLE TIMEOUT "%s"', sid)
+        const error = new IdleTimeoutError(`The session "${sid}" expired after being idle.`, sid)
+        this.emit('idle', { sid, error })
+        throw error
+      })
+  }
+
+  /**
+   * Mark the session as seen until its cookie expires, bound to a lease of its own.
+   */
+  private markSeen(sid: string, session: Express.SessionData): Promise<void> {
+    const seeing = this.client.lease(this.capTTL(this.getRawTTL(session, sid), session))
+    this.record(metrics => metrics.leaseGranted())
+    return seeing
+      .put(this.seenKey(sid, session))
+      .value('')
+      .then(
+        () => {
+          seeing.release()
+        },
+        err => {
+          seeing.release()
+          throw err
+        }
+      )
+  }
+
+  /**
+   * Refresh the lease of the mark of the touched session, marking it again if it is gone.
+   */
+  private touchSeen(sid: string, session: Express.SessionData): Promise<void> {
+    const ttl = this.capTTL(this.getRawTTL(session, sid), session)
+    return this.client
+      .get(this.seenKey(sid, session))
+      .exec()
+      .then(res => this.refreshLease(res.kvs[0], ttl))
+      .then(refreshed => (refreshed ? undefined : this.markSeen(sid, session)))
+  }
+
+  /**
+   * Destroy the session written or touched once its lifetime is over, instead.
+   */
+  private expireSession(sid: string, callback: (err: any) => void) {
+    this.debug('LIFETIME OVER "%s", destroying it', sid)
+    this.destroySession(sid, callback)
+  }
+
+  /**
+   * Delete the session from etcd, along its user index entry.
+   */
+  private destroySession(sid: string, callback: (err: any) => void) {
+    this.debug('DESTROY')
+    try {
+      this.flushWrites()
+        .then<any>(() => {
+          const deleting = this.client.delete().key(this.key(sid))
+          const dropping = this.chunking && this.client.delete().prefix(this.key(sid) + '/')
+          const unmarking = this.config.idleTimeout && this.client.delete().key(this.seenKey(sid))
+          if (!this.config.userField) return Promise.all<any>([deleting, dropping, unmarking])
+          const droppingPrevious = dropping ? dropping.getPrevious() : Promise.resolve([])
+          return Promise.all<any>([
+            deleting.getPrevious(),
+            droppingPrevious,
+            unmarking
+          ]).then(([kvs, chunks]: IKeyValue[][]) => this.deleteIndexEntries(kvs, chunks))
+        })
+        .then(
+          () => {
+            this.forget(this.key(sid))
+            this.callbackWithLog(callback)
+          },
+          err => this.callbackWithLog(callback, err)
+        )
+    } catch (err) {
+      this.callbackWithLog(callback, err)
+    }
+  }
+
+  /**
+   * Run the etcd operation through the resilience layer when it is configured, using
+   * its fallback store while the circuit is open.
+   */
+  private resilient(
+    attempt: (callback: (err: any, value?: any) => void) => void,
+    fallback: (store: FallbackStore, callback: (err: any, value?: any) => void) => void,
+    callback: (err: any, value?: any) => void
+  ) {
+    const resilience = this.resilience
+    if (!resilience) return attempt(callback)
+    const store = resilience.fallback
+    resilience.run(attempt, store && (cb => fallback(store, cb)), callback)
+  }
+
+  /**
+   * Build the etcd key with the right prefix and the givin session ID (`sid`)
+   */
+  private key(sid = '', session?: Express.SessionData): string {
+    return this.prefixOf(sid, session) + '/' + sid
+  }
+
+  /**
+   * Get the prefix of the session, resolving it with the `prefix` function if it is one.
+   */
+  private prefixOf(sid: string, session?: Express.SessionData): string {
+    const prefix = this.config.prefix || defaultOptions.prefix
+    return typeof prefix === 'function' ? this.checkPrefix(prefix(sid, session)) : prefix
+  }
+
+  /**
+   * Get the static prefix, required by the operations that only know a user ID.
+   */
+  private staticPrefix(): string {
+    const prefix = this.config.prefix || defaultOptions.prefix
+    if (typeof prefix === 'function') {
+      throw new TypeError('The prefix is a function, use `scope(prefix)` to get its sessions.')
+    }
+    return prefix
+  }
+
+  /**
+   * Get the start of the keys of all the sessions: the static prefix followed by `/`,
+   * or the `rootPrefix` of all the prefixes resolved by the `prefix` function.
+   */
+  private rootKey(): string {
+    const prefix = this.config.prefix || defaultOptions.prefix
+    if (typeof prefix !== 'function') return prefix + '/'
+    return this.config.rootPrefix || defaultOptions.rootPrefix!
+  }
+
+  /**
+   * Get the remaining time to live in seconds of the lease of the key, or `Infinity`
+   * if it is not bound to a lease.
+   */
+  private leaseTTL(kv: IKeyValue): Promise<number> {
+    if (!Number(kv.lease)) return Promise.resolve(Infinity)
+    return this.client.leaseClient
+      .leaseTimeToLive({ ID: kv.lease })
+      .then(lease => Math.max(0, Number(lease.TTL)))
+  }
+
+  /**
+   * Get the key written by the health check, under the root key like the sessions, but
+   * with a reserved name never parsed as the key of a session.
+   */
+  private probeKey(): string {
+    return this.rootKey() + ':health/probe'
+  }
+
+  /**
+   * Check the prefix resolved by the `prefix` function is the root prefix followed by
+   * a name without `/` or `:`. So the keys under a prefix, or at its user index, never
+   * overlap with the ones of another prefix.
+   */
+  private checkPrefix(prefix: string): string {
+    if (!this.isResolvedPrefix(prefix)) {
+      throw new RangeError(
+        `The prefix "${prefix}" must be "${this.rootKey()}" followed by a name without "/" or ":".`
+      )
+    }
+    return prefix
+  }
+
+  private isResolvedPrefix(prefix: string): boolean {
+    const root = this.rootKey()
+    const name = prefix.slice(root.length)
+    return prefix.startsWith(root) && !!name && !/[/:]/.test(name)
+  }
+
+  /**
+   * Get the prefix and the session ID (`sid`) of the given key, or `undefined` if it is
+   * not the key of a session, like the user index entries under the `rootPrefix` or the
+   * chunks at `<prefix>/<sid>/<generation>/<n>`.
+   */
+  private parseKey(key: Buffer | string): { prefix: string; sid: string } | undefined {
+    const text = key.toString()
+    const root = this.rootKey()
+    if (!text.startsWith(root)) return undefined
+    if (typeof this.config.prefix !== 'function') {
+      const sid = text.slice(root.length)
+      return sid.includes('/') ? undefined : { prefix: root.slice(0, -1), sid }
+    }
+    const end = text.indexOf('/', root.length)
+    const prefix = text.slice(0, end)
+    const sid = text.slice(end + 1)
+    return end >= 0 && this.isResolvedPrefix(prefix) && !sid.includes('/')
+      ? { prefix, sid }
+      : undefined
+  }
+
+  /**
+   * Build the etcd key of the user index with the given user ID and session ID (`sid`)
+   */
+  private userKey(userId = '', sid = '', prefix = this.staticPrefix()): string {
+    const user = userId && encodeURIComponent(userId) + '/'
+    return prefix + ':users/' + user + sid
+  }
+
+  /**
+   * Build the key marking the session as seen, with the `idleTimeout` option.
+   */
+  private seenKey(sid = '', session?: Express.SessionData): string {
+    return this.prefixOf(sid, session) + ':seen/' + sid
+  }
+
+  /**
+   * Build the key of the lock of the session.
+   */
+  private lockKey(sid: string): string {
+    return this.prefixOf(sid) + ':locks/' + sid
+  }
+
+  /**
+   * Get the ID of the user of the session from the configured `userField`.
+   */
+  private getUserId(session?: Express.SessionData | null): string | undefined {
+    const field = this.config.userField
+    if (!field || !session) return undefined
+    const value = field
+      .split('.')
+      .reduce((obj: any, name) => (obj === null || obj === undefined ? obj : obj[name]), session)
+    return typeof value === 'string' || typeof value === 'number' ? String(value) : undefined
+  }
+
+  /**
+   * Get the session IDs at the index of the given user.
+   */
+  private userSids(userId: string): Promise<string[]> {
+    if (!this.config.userField) throw new TypeError('The `userField` option is not set.')
+    const userKey = this.userKey(userId)
+    return this.client
+      .getAll()
+      .prefix(userKey)
+      .keys()
+      .then(keys => keys.map(key => key.slice(userKey.length)))
+  }
+
+  /**
+   * Put the session along its user index entry in a single transaction, both bound to
+   * the same lease. The index entry of the previous user of the session, and the chunks
+   * of its previous value, are then removed.
+   * With the `concurrency` option, the revision written is recorded at the session.
+   */
+  private putSession(leasing: Lease, sid: string, session: Express.SessionData, value: Buffer) {
+    const revision = this.concurrency && getRevision(session)
+    const prefix = this.prefixOf(sid, session)
+    return leasing
+      .grant()
+      .then(lease => this.commitSession(lease, prefix, sid, session, value, revision))
+      .then(([written, res]) => {
+        if (this.concurrency) session[revisionField] = res.header.revision
+        const userId = this.getUserId(written)
+        const replaced = res.responses[0].response_put.prev_kv
+        const assembling = this.config.userField
+          ? this.assemble(replaced).catch(() => undefined)
+          : Promise.resolve(undefined)
+        return assembling.then(previous => {
+          if (replaced) this.dropChunks(prefix + '/' + sid, replaced.value)
+          const previousUserId =
+            previous && this.getUserId(this.tryDecode(previous.value, previous.key.toString()))
+          if (previousUserId && previousUserId !== userId) {
+            return this.client
+              .delete()
+              .key(this.userKey(previousUserId, sid, prefix))
+              .then(() => undefined)
+          }
+        })
+      })
+  }
+
+  /**
+   * Commit the put of the session and its user index entry, only if the session is
+   * still at the given `revision` when there is one. On a conflict, the session stored
+   * meanwhile is merged with ours and committed again with its revision.
+   *
+   * Resolves to the session written and the response of the transaction.
+   */
+  private commitSession(
+    lease: string,
+    prefix: string,
+    sid: string,
+    session: Express.SessionData,
+    value: Buffer,
+    revision?: string,
+    merges = 0
+  ): Promise<[Express.SessionData, ITxnResponse]> {
+    const key = prefix + '/' + sid
+    return this.writeChunks(key, value, lease).then(stored => {
+      const userId = this.getUserId(session)
+      const ops: IRequestOp[] = [
+        { request_put: { key: Buffer.from(key), value: stored, lease, prev_kv: true } }
+      ]
+      if (userId) {
+        const indexKey = Buffer.from(this.userKey(userId, sid, prefix))
+        ops.push({ request_put: { key: indexKey, value: Buffer.from(''), lease } })
+      }
+      const comparing = revision
+        ? this.client.if(key, 'Mod', '==', revision)
+        : this.client.if(key, 'Version', '>', -1)
+      return comparing
+        .then(...ops)
+        .else(this.client.get(key))
+        .commit()
+        .then(res => {
+          if (res.succeeded) return [session, res] as [Express.SessionData, ITxnResponse]
+          this.dropChunks(key, stored)
+          const [current] = res.responses[0].response_range.kvs
+          const { merge, maxMerges = defaultConcurrencyOptions.maxMerges! } = this.concurrency!
+          this.debug('CONFLICT "%s" revision:%s merges:%d', sid, revision, merges)
+          if (!merge || merges >= maxMerges) {
+            throw new ConflictError(`The session "${sid}" was changed by another request.`, sid)
+          }
+          return this.assemble(current).then(theirs => {
+            const merged = merge(
+              withoutRevision(session),
+              this.decode(theirs && theirs.value, key),
+              sid
+            )
+            const mergedRevision = current ? current.mod_revision : '0'
+            return this.commitSession(
+              lease,
+              prefix,
+              sid,
+              merged,
+              this.encode(merged, key),
+              mergedRevision,
+              merges + 1
+            )
+          })
+        })
+    })
+  }
+
+  /**
+   * Delete the user index entries of the deleted sessions.
+   */
+  private deleteIndexEntries(kvs: IKeyValue[], chunks: IKeyValue[] = []) {
+    const keys: string[] = []
+    kvs.forEach(kv => {
+      const value = this.deletedValue(kv, chunks)
+      const userId = value && this.getUserId(this.tryDecode(value, kv.key.toString()))
+      const parsed = this.parseKey(kv.key)
+      if (userId && parsed) keys.push(this.userKey(userId, parsed.sid, parsed.prefix))
+    })
+    return Promise.all(
+      keys.map(key =>
+        this.client
+          .delete()
+          .key(key)
+          .exec()
+      )
+    )
+  }
+
+  /**
+   * Fetch the raw key-value of the session from the cache or from etcd.
+   */
+  private fetch(sid: string): Promise<IKeyValue | undefined> {
+    const key = this.key(sid)
+    const flushing = this.batcher && this.batcher.flushKey(key)
+    if (flushing) {
+      this.debug('FLUSH the batched write of "%s" before reading it', sid)
+      return flushing.then(
+        () => this.fetch(sid),
+        () => this.fetch(sid)
+      )
+    }
+    const cache = this.cache
+    const fetching = () =>
+      this.client
+        .get(key)
+        .exec()
+        .then(res => res.kvs[0])
+    if (!cache) return fetching()
+    const cached = cache.get(key)
+    if (cached) {
+      this.debug('CACHE HIT "%s"', sid)
+      return Promise.resolve(cached)
+    }
+    const generation = cache.generation
+    return fetching().then(kv => {
+      if (kv) cache.set(key, kv, generation)
+      return kv
+    })
+  }
+
+  /**
+   * Read the session of the fetched key-value, recording its revision at the session
+   * when the `concurrency` option is enabled.
+   */
+  private read(kv?: IKeyValue): Express.SessionData | null {
+    const session = kv ? this.decodeValid(kv) : null
+    if (session && kv && this.concurrency) session[revisionField] = kv.mod_revision
+    return session
+  }
+
+  /**
+   * Get the key-value with the value joined from its chunks, when it was split into
+   * chunks. The key is read again when some chunks are missing, as it may have been
+   * written or deleted meanwhile, to give `undefined` if it is gone.
+   */
+  private assemble(kv?: IKeyValue, retries = 1): Promise<IKeyValue | undefined> {
+    let manifest: Manifest | undefined
+    try {
+      manifest = kv && parseSession(() => readManifest(kv.value))
+    } catch (err) {
+      return Promise.reject(err)
+    }
+    if (!kv || !manifest) return Promise.resolve(kv)
+    const key = kv.key.toString()
+    return this.readChunks(key, manifest).then(value => {
+      if (value) return { ...kv, value }
+      if (retries <= 0) {
+        throw new InvalidSessionError(`The chunks of the session "${key}" are missing.`)
+      }
+      this.debug('MISSING CHUNKS "%s", reading it again', key)
+      return this.client
+        .get(key)
+        .exec()
+        .then(res => this.assemble(res.kvs[0], retries - 1))
+    })
+  }
+
+  /**
+   * Get the key-value joined from its chunks like `assemble`. With the `validation`
+   * option, a session that can't be joined is moved to the quarantine and treated as
+   * missing.
+   */
+  private assembleValid(kv?: IKeyValue): Promise<IKeyValue | undefined> {
+    return this.assemble(kv).catch(err => {
+      if (!kv || !this.validation || !(err instanceof InvalidSessionError)) throw err
+      this.quarantine(kv, err)
+      return undefined
+    })
+  }
+
+  /**
+   * Read and join the chunks of the manifest at the key, as they were at the given
+   * revision if any, or give `undefined` if some are missing.
+   */
+  private readChunks(
+    key: string,
+    manifest: Manifest,
+    revision?: string
+  ): Promise<Buffer | undefined> {
+    const chunksKey = chunkKey(key, manifest.generation)
+    const range = this.client.getAll().prefix(chunksKey)
+    return (revision ? range.revision(revision) : range)
+      .buffers()
+      .then(buffers => this.joinNamedChunks(manifest, chunksKey, buffers))
+  }
+
+  /**
+   * Join the chunks of the manifest among the values named by their etcd key, or give
+   * `undefined` if some are missing.
+   */
+  private joinNamedChunks(
+    manifest: Manifest,
+    chunksKey: string,
+    named: { [key: string]: Buffer }
+  ): Buffer | undefined {
+    const chunks: Buffer[] = []
+    Object.keys(named).forEach(name => {
+      if (name.startsWith(chunksKey)) chunks[Number(name.slice(chunksKey.length))] = named[name]
+    })
+    return joinChunks(manifest, chunks)
+  }
+
+  /**
+   * Get the value of a deleted session, joined from its deleted chunks when it is a
+   * manifest, or `undefined` if some are missing.
+   */
+  private deletedValue(kv: IKeyValue, chunks: IKeyValue[]): Buffer | undefined {
+    const manifest = readManifest(kv.value)
+    if (!manifest) return kv.value
+    const named: { [key: string]: Buffer } = {}
+    chunks.forEach(chunk => {
+      named[chunk.key.toString()] = chunk.value
+    })
+    return this.joinNamedChunks(manifest, chunkKey(kv.key.toString(), manifest.generation), named)
+  }
+
+  /**
+   * Read the version of the session of a previous key-value, with the value joined
+   * from the chunks it had at its revision.
+   */
+  private readVersion(kv: IKeyValue): Promise<SessionVersion<S>> {
+    const manifest = readManifest(kv.value)
+    const reading = manifest
+      ? this.readChunks(kv.key.toString(), manifest, kv.mod_revision)
+      : Promise.resolve(kv.value)
+    return reading.then(value => {
+      const session = ((value && this.tryDecode(value, kv.key.toString())) || null) as S | null
+      return {
+        revision: kv.mod_revision,
+        version: Number(kv.version),
+        session,
+        updatedAt: getUpdatedAt(session)
+      }
+    })
+  }
+
+  /**
+   * Tell whether the value is over the chunk size, with the `chunking` option.
+   */
+  private isOversized(value: Buffer): boolean {
+    return !!this.chunking && value.length > this.chunking.chunkSize!
+  }
+
+  /**
+   * Write the chunks of the value when it is over the chunk size, bound to the lease,
+   * and give the value to write at the key: their manifest, or the value itself.
+   */
+  private writeChunks(key: string, value: Buffer, lease: string): Promise<Buffer> {
+    if (!this.isOversized(value)) return Promise.resolve(value)
+    const { manifest, generation, chunks } = splitValue(value, this.chunking!.chunkSize!)
+    this.debug('CHUNKS "%s" generation:%s count:%d', key, generation, chunks.length)
+    return Promise.all(
+      chunks.map((chunk, n) =>
+        this.client
+          .put(chunkKey(key, generation, String(n)))
+          .value(chunk)
+          .lease(lease)
+      )
+    ).then(() => manifest)
+  }
+
+  /**
+   * Delete the chunks of the manifest that could not be written at the key, or that
+   * was replaced at it.
+   */
+  private dropChunks(key: string, value: Buffer) {
+    let manifest: Manifest | undefined
+    try {
+      manifest = readManifest(value)
+    } catch (err) {
+      return this.debug('ERR reading the manifest of "%s" %O', key, err)
+    }
+    if (!manifest) return
+    const { generation } = manifest
+    this.client
+      .delete()
+      .prefix(chunkKey(key, generation))
+      .then(
+        () => this.debug('DROPPED CHUNKS "%s" generation:%s', key, generation),
+        err => this.debug('ERR dropping the chunks of "%s" %O', key, err)
+      )
+  }
+
+  /**
+   * Decode the session of the key-value. With the `validation` option, an invalid session
+   * is moved to the quarantine and treated as missing.
+   */
+  private decodeValid(kv: IKeyValue): Express.SessionData | null {
+    const validation = this.validation
+    try {
+      const session = this.decode(kv.value, kv.key.toString())
+      if (validation) {
+        const { sid } = this.parseKey(kv.key)!
+        validateSession(session, sid, validation.validator)
+      }
+      return session
+    } catch (err) {
+      if (!validation || !(err instanceof InvalidSessionError)) throw err
+      this.quarantine(kv, err)
+      return null
+    }
+  }
+
+  /**
+   * Move the invalid session to `<prefix>:quarantine/<sid>`, bound to a lease of the
+   * `retention`, unless it was changed meanwhile, and emit the `quarantined` event.
+   */
+  private quarantine(kv: IKeyValue, error: InvalidSessionError) {
+    const key = kv.key.toString()
+    const { prefix, sid } = this.parseKey(key)!
+    const quarantineKey = prefix + ':quarantine/' + sid
+    const { retention = defaultValidationOptions.retention! } = this.validation!
+    this.debug('QUARANTINE "%s" retention:%s %s', key, retention, error.message)
+    this.evict(key)
+    const leaseClient = this.client.leaseClient
+    leaseClient
+      .leaseGrant({ TTL: retention })
+      .then(grant => {
+        this.record(metrics => metrics.leaseGranted())
+        return this.client
+          .if(key, 'Mod', '==', kv.mod_revision)
+          .then(
+            this.client
+              .put(quarantineKey)
+              .value(kv.value)
+              .lease(grant.ID),
+            this.client.delete().key(key)
+          )
+          .commit()
+          .then(res => {
+            if (res.succeeded) {
+              this.emit('quarantined', { sid, key: quarantineKey, error })
+              return undefined
+            }
+            return leaseClient.leaseRevoke({ ID: grant.ID }).then(() => undefined)
+          })
+      })
+      .then(
+        () => undefined,
+        err => this.debug('ERR quarantining "%s" %O', key, err)
+      )
+  }
+
+  /**
+   * Evict the key from the cache, if it is enabled.
+   */
+  private evict(key: string) {
+    if (this.cache) this.cache.delete(key)
+  }
+
+  /**
+   * Evict the key of a destroyed session from the cache, and forget its lease.
+   */
+  private forget(key: string) {
+    this.evict(key)
+    if (this.touches) this.touches.forget(key)
+  }
+
+  /**
+   * Keep the cache coherent with the changes made at etcd by any instance.
+   * The cache is only used while the watcher is connected.
+   */
+  private watchCache(cache: SessionCache<IKeyValue>) {
+    const evict = (kv: IKeyValue) => cache.delete(kv.key.toString())
+    this.watch().then(
+      watcher => {
+        watcher
+          .on('put', evict)
+          .on('delete', evict)
+          .on('connected', () => cache.activate())
+          .on('disconnected', () => cache.deactivate())
+          .on('end', () => cache.deactivate())
+          .on('error', err => {
+            this.debug('ERR cache watcher %O', err)
+            cache.deactivate()
+          })
+        if (this.watcher) cache.activate()
+      },
+      err => this.debug('ERR cache watcher %O', err)
+    )
+  }
+
+  /**
+   * Emit the lifecycle events of the sessions changed by any instance.
+   */
+  private watchEvents() {
+    this.watch().then(
+      watcher =>
+        watcher
+          .on('put', kv => {
+            if (!this.parseKey(kv.key)) return
+            const session = this.tryDecode(kv.value, kv.key.toString())
+            if (session && !(this.lifetime(session) > 0)) return
+            this.emitSessionEvent(kv.version === '1' ? 'created' : 'updated', kv, session)
+          })
+          .on('delete', (kv, previous) => {
+            if (this.parseKey(kv.key)) this.emitDeleteEvent(kv, previous)
+          })
+          .on('error', err => this.debug('ERR events watcher %O', err)),
+      err => this.debug('ERR events watcher %O', err)
+    )
+  }
+
+  /**
+   * Emit the event of a deleted session. It is told apart as `expired` when the lease
+   * of its previous value is gone, otherwise it was explicitly `destroyed`.
+   */
+  private emitDeleteEvent(kv: IKeyValue, previous?: IKeyValue) {
+    const lease = previous ? previous.lease : '0'
+    const expiring = Number(lease)
+      ? this.client.leaseClient.leaseTimeToLive({ ID: lease }).then(
+          res => Number(res.TTL) <= 0,
+          () => false
+        )
+      : Promise.resolve(false)
+    const session = previous && this.tryDecode(previous.value, previous.key.toString())
+    expiring.then(expired => this.emitSessionEvent(expired ? 'expired' : 'destroyed', kv, session))
+  }
+
+  /**
+   * Emit the session event with the sid of the key and the given session.
+   */
+  private emitSessionEvent(name: SessionEventName, kv: IKeyValue, session?: Express.SessionData) {
+    const event: SessionEvent = { sid: this.parseKey(kv.key)!.sid, session }
+    this.debug('EVENT %s "%s"', name, event.sid)
+    this.emit(name, event)
+  }
+
+  /**
+   * Watch the changes of all the sessions under the prefix, sharing a single etcd watcher.
+   */
+  private watch(): Promise<Watcher> {
+    if (!this.watcher) {
+      this.debug('WATCH "%s"', this.rootKey())
+      this.watcher = this.client
+        .watch()
+        .prefix(this.rootKey())
+        .withPreviousKV()
+        .create()
+    }
+    return this.watcher
+  }
+
+  /**
+   * Serialize the session and write it into an envelope with the serializer name,
+   * encrypting it for its etcd key when the encryption is enabled.
+   */
+  private encode(session: Express.SessionData, key: string): Buffer {
+    const serializer = this.config.serializer || jsonSerializer
+    const payload = serializer.serialize(withoutRevision(session))
+    const value = this.compress(
+      writeFrame(
+        FrameType.Serialized,
+        serializer.name,
+        typeof payload === 'string' ? Buffer.from(payload, 'utf8') : payload
+      )
+    )
+    return this.encryptor ? this.encryptor.encrypt(value, key) : value
+  }
+
+  /**
+   * Compress the value if the compression is enabled and the value is bigger than
+   * its threshold, keeping the original one when it does not get smaller.
+   */
+  private compress(value: Buffer): Buffer {
+    const { compression } = this.config
+    if (!compression) return value
+    const options = compression === true ? {} : compression
+    const threshold =
+      options.threshold === undefined ? defaultCompressionThreshold : options.threshold
+    if (value.length < threshold) return value
+    const compressed = compress(value, options)
+    const ratio = (compressed.length / value.length).toFixed(3)
+    this.debug('COMPRESS %d -> %d bytes, ratio: %s', value.length, compressed.length, ratio)
+    return compressed.length < value.length ? compressed : value
+  }
+
+  /**
+   * Read a session from the value stored at the etcd key, unwrapping its envelope frames.
+   * Values written before the envelope existed are parsed as plain JSON. The values that
+   * can't be read, other than by their decryption, throw an `InvalidSessionError`.
+   */
+  private decode(
+    value: Buffer | null | undefined,
+    key: string,
+    decrypted = false
+  ): Express.SessionData | null {
+    if (!value) return null
+    const frame = isEnvelope(value) ? parseSession(() => readFrame(value)) : undefined
+    const encryptor = this.encryptor
+    const isEncrypted = !!frame && frame.type === FrameType.Encrypted
+    if (encryptor && !encryptor.allowUnencrypted && !decrypted && !isEncrypted) {
+      throw new DecryptionError('The value is not encrypted.')
+    }
+    if (!frame) return parseSession(() => JSON.parse(value.toString('utf8')))
+    switch (frame.type) {
+      case FrameType.Serialized:
+        return this.deserialize(frame)
+      case FrameType.Encrypted:
+        if (!encryptor) throw new DecryptionError('The value is encrypted, but no key is set.')
+        return this.decode(encryptor.decrypt(frame, key), key, true)
+      case FrameType.Compressed:
+        return this.decode(
+          parseSession(() => decompress(frame)),
+          key,
+          decrypted
+        )
+    }
+    throw new InvalidSessionError(`Unknown envelope frame type ${frame.type}.`)
+  }
+
+  /**
+   * Read a session from the value stored at the etcd key, ignoring the values that
+   * can't be decoded.
+   */
+  private tryDecode(value: Buffer, key: string): Express.SessionData | undefined {
+    try {
+      return this.decode(value, key) || undefined
+    } catch (err) {
+      this.debug('ERR decoding the session %O', err)
+      return undefined
+    }
+  }
+
+  /**
+   * Read a session from a serialized frame, using the serializer named at it.
+   */
+  private deserialize(frame: Frame): Express.SessionData {
+    const serializer = this.findSerializer(frame.meta)
+    if (!serializer) {
+      throw new InvalidSessionError(`Unknown session serializer "${frame.meta}".`)
+    }
+    return parseSession(() => serializer.deserialize(frame.payload))
+  }
+
+  /**
+   * Find between the configured and built-in serializers the one with the given name.
+   */
+  private findSerializer(name: string): Serializer | undefined {
+    const { serializer, serializers = [] } = this.config
+    return [serializer, ...serializers, ...builtInSerializers].find(
+      candidate => !!candidate && candidate.name === name
+    )
+  }
+
+  /**
+   * Keep alive the lease attached to the given key-value (`kv`), without sending
+   * its value again. Nothing is sent when the time left on the lease already covers
+   * the `ttl`, like the one of a cookie `maxAge` counting down. The keys attached to it
+   * are moved to a new lease when the `ttl` differs from the one it was granted, like a
+   * `ttl` capped at the lifetime left, since a keepalive renews the granted one.
+   *
+   * Resolves to `false` if there is no live lease to refresh.
+   */
+  private refreshLease(kv: IKeyValue | undefined, ttl: number): Promise<boolean> {
+    if (!kv || !Number(kv.lease)) return Promise.resolve(false)
+    const leaseClient = this.client.leaseClient
+    return leaseClient.leaseTimeToLive({ ID: kv.lease, keys: true }).then(lease => {
+      if (Number(lease.TTL) <= 0) return false
+      if (Number(lease.TTL) >= ttl) {
+        this.debug('LEASE COVERS lease:%s ttl:%s', kv.lease, ttl)
+        return true
+      }
+      if (Number(lease.grantedTTL) === ttl) {
+        this.debug('KEEPALIVE lease:%s', kv.lease)
+        return this.keepAlive(kv.lease).then(res => Number(res.TTL) > 0)
+      }
+      this.debug('REGRANT lease:%s ttl:%s', kv.lease, ttl)
+      return leaseClient.leaseGrant({ TTL: ttl }).then(grant => {
+        this.record(metrics => metrics.leaseGranted())
+        return this.client
+          .if(kv.key, 'Lease', '==', kv.lease)
+          .then(
+            ...lease.keys.map(key => ({
+              request_put: { key, ignore_value: true, lease: grant.ID }
+            }))
+          )
+          .commit()
+          .then(res => res.succeeded)
+      })
+    })
+  }
+
+  /**
+   * Fire a single keepalive request for the given lease ID.
+   */
+  private keepAlive(leaseID: string): Promise<ILeaseKeepAliveResponse> {
+    return this.client.leaseClient.leaseKeepAlive().then(
+      stream =>
+        new Promise<ILeaseKeepAliveResponse>((resolve, reject) => {
+          stream.on('data', res => {
+            stream.end()
+            resolve(res)
+          })
+          stream.on('error', reject)
+          stream.write({ ID: leaseID })
+        })
+    )
+  }
+
+  /**
+   * Get the Time to Live (`ttl`) of the session
+   */
+  private getTTL(sess: Express.SessionData, sid: string): number {
+    return this.capTTL(this.config.idleTimeout || this.getRawTTL(sess, sid), sess)
+  }
+
+  /**
+   * Cap the raw Time to Live (`ttl`) at the max TTL and the lifetime left of the session
+   */
+  private capTTL(rawTTL: number, sess: Express.SessionData): number {
+    return Math.min(rawTTL > maxTTL ? maxTTL : rawTTL, Math.ceil(this.lifetime(sess)))
+  }
+
+  /**
+   * Get the seconds left before the session reaches the `absoluteTimeout`, if any.
+   */
+  private lifetime(sess: Express.SessionData): number {
+    const { absoluteTimeout } = this.config
+    return absoluteTimeout ? lifetimeLeft(sess, absoluteTimeout) : Infinity
+  }
+
+  /**
+   * Get the raw Time to Live (`ttl`) of the session from the data sources
+   */
+  private getRawTTL(sess: Express.SessionData, sid: string): number {
+    const storeTtl = this.ttl
+    if (typeof storeTtl === 'number') return storeTtl
+    if (typeof storeTtl === 'string') return Number(storeTtl)
+    if (typeof storeTtl === 'function') return storeTtl(this, sess, sid)
+    if (storeTtl) throw new TypeError('`store.ttl` must be a number or function.')
+
+    const maxAge = sess.cookie.maxAge
+    return typeof maxAge === 'number' ? Math.floor(maxAge / 1000) : oneDay
+  }
+
+  /**
+   * Call the callback method with a node style callback, resolving or rejecting
+   * the returned promise with its result.
+   */
+  private promisify<T>(method: (callback: (err: any, value?: any) => void) => void): Promise<T> {
+    return new Promise<T>((resolve, reject) =>
+      method((err, value) => (err ? reject(err) : resolve(value)))
+    )
+  }
+
+  /**
+   * Wrap the callback of the operation to record its duration and error into the metrics.
+   */
+  private measure<T extends (err: any, value?: any) => void>(
+    name: MeasuredOperation,
+    callback: T
+  ): T {
+    if (!this.config.metrics) return callback
+    const start = process.hrtime()
+    return ((err: any, value?: any) => {
+      const [seconds, nanoseconds] = process.hrtime(start)
+      this.record(metrics => metrics.operation(name, seconds + nanoseconds / 1e9, err || undefined))
+      callback(err, value)
+    }) as T
+  }
+
+  /**
+   * Record into the metrics hook, if it is set, without failing the operation.
+   */
+  private record(recording: (metrics: StoreMetrics) => void) {
+    if (!this.config.metrics) return
+    try {
+      recording(this.config.metrics)
+    } catch (err) {
+      this.debug('ERR recording the metrics %O', err)
+    }
   }
 
   /**
@@ -0,0 +1,157 @@
+import { Etcd3 } from 'etcd3'
+import { RequestHandler } from 'express'
+
+/**
+ * Configuration options for the health check of the store.
+ */
+export interface HealthCheckOptions {
+  /**
+   * Maximum round-trip time in milliseconds to etcd for the store to be healthy.
+   *
+   * Defaults to `1000`.
+   */
+  maxLatency?: number
+  /**
+   * Time in milliseconds waited for every etcd request of the health check.
+   *
+   * Defaults to `5000`.
+   */
+  timeout?: number
+  /**
+   * Option to check the store can write at its prefix, by putting and deleting a probe key.
+   *
+   * Defaults to `true`.
+   */
+  write?: boolean
+}
+
+/**
+ * Result of one of the checks of the store health.
+ */
+export interface HealthCheckResult {
+  ok: boolean
+  /**
+   * Message of the error failing the check.
+   */
+  error?: string
+}
+
+/**
+ * Status of the store health, healthy when all its checks are ok.
+ */
+export interface HealthStatus {
+  healthy: boolean
+  /**
+   * Round-trip time in milliseconds to etcd, if it is reachable.
+   */
+  latency?: number
+  checks: {
+    connectivity: HealthCheckResult
+    leader: HealthCheckResult
+    latency: HealthCheckResult
+    write: HealthCheckResult
+  }
+}
+
+/**
+ * Default configuration values for the health check options
+ */
+export const defaultHealthCheckOptions: HealthCheckOptions = Object.freeze({
+  maxLatency: 1000,
+  timeout: 5000,
+  write: true
+})
+
+/**
+ * Time to live in seconds of the lease of the probe key, removing it if its delete fails.
+ */
+const probeTTL = 10
+
+function withTimeout<T>(promise: PromiseLike<T>, timeout: number): Promise<T> {
+  return new Promise<T>((resolve, reject) => {
+    const timer = setTimeout(() => reject(new Error(`Timed out after ${timeout}ms.`)), timeout)
+    promise.then(
+      value => {
+        clearTimeout(timer)
+        resolve(value)
+      },
+      err => {
+        clearTimeout(timer)
+        reject(err)
+      }
+    )
+  })
+}
+
+function failed(error: any): HealthCheckResult {
+  return { ok: false, error: (error && error.message) || String(error) }
+}
+
+/**
+ * Check etcd is reachable, has a leader and answers in time, and that the `probeKey`
+ * can be written, when the `write` option is enabled. The probe is bound to a short
+ * lease, so it never outlives a failed check.
+ */
+export async function checkHealth(
+  client: Etcd3,
+  probeKey: string,
+  options: HealthCheckOptions = {}
+): Promise<HealthStatus> {
+  const { maxLatency, timeout, write } = { ...defaultHealthCheckOptions, ...options }
+  const skipped = failed('Skipped, etcd is unreachable.')
+  const status: HealthStatus = {
+    healthy: false,
+    checks: { connectivity: skipped, leader: skipped, latency: skipped, write: skipped }
+  }
+  const start = Date.now()
+  let response
+  try {
+    response = await withTimeout(client.maintenance.status(), timeout!)
+  } catch (err) {
+    status.checks.connectivity = failed(err)
+    return status
+  }
+  const latency = Date.now() - start
+  status.latency = latency
+  status.checks.connectivity = { ok: true }
+  status.checks.leader =
+    response.leader && response.leader !== '0' ? { ok: true } : failed('etcd has no leader.')
+  status.checks.latency =
+    latency <= maxLatency! ? { ok: true } : failed(`Latency over ${maxLatency}ms.`)
+  status.checks.write = { ok: true }
+  if (write) {
+    const probe = client.lease(probeTTL)
+    try {
+      await withTimeout(probe.put(probeKey).value(String(start)), timeout!)
+      await withTimeout(client.delete().key(probeKey), timeout!)
+    } catch (err) {
+      status.checks.write = failed(err)
+    }
+    probe.revoke().then(
+      () => undefined,
+      () => undefined
+    )
+  }
+  const checks = status.checks
+  status.healthy = Object.keys(checks).every(name => (checks as any)[name].ok)
+  return status
+}
+
+/**
+ * Express request handler answering with the health status of the store, with the
+ * `200` status code when it is healthy and `503` otherwise. To use as a readiness probe:
+ *
+ * ```
+ * app.get('/ready', readinessHandler(store));
+ * ```
+ */
+export function readinessHandler(
+  store: { healthCheck(options?: HealthCheckOptions): Promise<HealthStatus> },
+  options?: HealthCheckOptions
+): RequestHandler {
+  return (req, res, next) => {
+    store
+      .healthCheck(options)
+      .then(status => res.status(status.healthy ? 200 : 503).json(status), next)
+  }
+}
@@ -0,0 +1,64 @@
+import { EtcdError } from 'etcd3/lib/src/errors'
+
+/**
+ * Session field where `set` records the time of the write, in milliseconds since the
+ * epoch, when the `history` option is enabled. It is given as the `updatedAt` of the
+ * versions of the session.
+ */
+export const updatedAtField = '__updatedAt'
+
+/**
+ * Configuration options for the history of a session.
+ */
+export interface HistoryOptions {
+  /**
+   * Maximum number of versions given, from the most recent one.
+   *
+   * Defaults to `10`.
+   */
+  limit?: number
+}
+
+/**
+ * Version of a session kept by etcd at a revision.
+ */
+export interface SessionVersion<S extends Express.SessionData = Express.SessionData> {
+  /**
+   * Revision of etcd where the version was written, to give to `restore`.
+   */
+  revision: string
+  /**
+   * Number of writes of the session since it was created, starting at `1`.
+   */
+  version: number
+  /**
+   * Decoded session, or `null` if it can not be decoded.
+   */
+  session: S | null
+  /**
+   * Time of the write recorded at the session `updatedAtField`, if any.
+   */
+  updatedAt?: number
+}
+
+/**
+ * Default number of versions given by the history of a session.
+ */
+export const defaultHistoryLimit = 10
+
+/**
+ * Tell whether the error is given by etcd for a revision removed by its compaction.
+ */
+export function isCompactedError(error: any): boolean {
+  return (
+    error instanceof EtcdError && error.message.includes('required revision has been compacted')
+  )
+}
+
+/**
+ * Get the time of the write recorded at the session, if any.
+ */
+export function getUpdatedAt(session: Express.SessionData | null): number | undefined {
+  const updatedAt = session ? session[updatedAtField] : undefined
+  return typeof updatedAt === 'number' ? updatedAt : undefined
+}
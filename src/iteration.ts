@@ -0,0 +1,29 @@
+/**
+ * Symbol of the async iterators, undefined before Node.js 10.
+ */
+const asyncIteratorSymbol: symbol | undefined = Symbol.asyncIterator
+
+/**
+ * Make an async iterator out of its `next` function. It can be used with `for await`
+ * where `Symbol.asyncIterator` exists, since Node.js 10, and by calling its `next` method
+ * on the older versions.
+ */
+export function asyncIterator<T>(next: () => Promise<IteratorResult<T>>): AsyncIterableIterator<T> {
+  const iterator: any = { next }
+  if (asyncIteratorSymbol) iterator[asyncIteratorSymbol] = () => iterator
+  return iterator
+}
+
+/**
+ * Call `fn` with the values of the async iterator one at a time, until it is done or
+ * `fn` resolves with `false`.
+ */
+export async function forEachAsync<T>(
+  iterator: AsyncIterator<T>,
+  fn: (value: T) => Promise<boolean | void>
+): Promise<void> {
+  while (true) {
+    const { done, value } = await iterator.next()
+    if (done || (await fn(value)) === false) return
+  }
+}
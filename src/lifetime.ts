@@ -0,0 +1,44 @@
+import { IdleTimeoutError } from './errors'
+
+/**
+ * Emitted as the `idle` event when `get` finds a session expired after being idle.
+ */
+export interface IdleEvent {
+  sid: string
+  error: IdleTimeoutError
+}
+
+/**
+ * Session field where `set` records the creation time of the session, in milliseconds
+ * since the epoch, when the `absoluteTimeout` option is enabled. It is stored along the
+ * session, so it is kept by every later write.
+ */
+export const createdAtField = '__createdAt'
+
+/**
+ * Get the creation time recorded at the session, if any.
+ */
+export function getCreatedAt(session: Express.SessionData): number | undefined {
+  const createdAt = session[createdAtField]
+  return typeof createdAt === 'number' ? createdAt : undefined
+}
+
+/**
+ * Record the current time as the creation time of the session, unless it already has one.
+ */
+export function stampCreatedAt(session: Express.SessionData, now = Date.now()) {
+  if (getCreatedAt(session) === undefined) session[createdAtField] = now
+}
+
+/**
+ * Get the seconds left before the session reaches the absolute timeout, in seconds,
+ * since its creation. It is `Infinity` for the sessions without creation time.
+ */
+export function lifetimeLeft(
+  session: Express.SessionData,
+  absoluteTimeout: number,
+  now = Date.now()
+): number {
+  const createdAt = getCreatedAt(session)
+  return createdAt === undefined ? Infinity : (createdAt - now) / 1000 + absoluteTimeout
+}
@@ -0,0 +1,180 @@
+import { createHmac, timingSafeEqual } from 'crypto'
+import { Etcd3, Lease } from 'etcd3'
+import { Request, RequestHandler } from 'express'
+import { SessionLockError } from './errors'
+
+/**
+ * Configuration options for the locks of the sessions.
+ */
+export interface LockOptions {
+  /**
+   * Time in seconds the lock is kept after its holder crashed, as the ttl of its lease.
+   * The lease is kept alive while the lock is held.
+   *
+   * Defaults to `30`.
+   */
+  ttl?: number
+  /**
+   * Time in milliseconds waited for the lock held by another request, before failing
+   * with a `SessionLockError`.
+   *
+   * Defaults to `5000`.
+   */
+  timeout?: number
+  /**
+   * Time in milliseconds between the attempts to acquire the lock.
+   *
+   * Defaults to `50`.
+   */
+  retryDelay?: number
+}
+
+/**
+ * Configuration options for the `sessionLock` middleware, reading the session ID from
+ * the session cookie like express-session.
+ */
+export interface SessionLockMiddlewareOptions extends LockOptions {
+  /**
+   * Name of the session cookie, as the `name` option of express-session.
+   *
+   * Defaults to `connect.sid`.
+   */
+  name?: string
+  /**
+   * Secrets signing the session cookie, as the `secret` option of express-session.
+   */
+  secret: string | string[]
+}
+
+/**
+ * Default configuration values for the lock options
+ */
+export const defaultLockOptions: LockOptions = Object.freeze({
+  ttl: 30,
+  timeout: 5000,
+  retryDelay: 50
+})
+
+/**
+ * Acquire the lock at the key, trying again until the timeout while it is held by
+ * someone else. The lock is the key bound to a lease kept alive while it is held, and
+ * the same lease is used by every attempt. Revoke the lease to release the lock.
+ */
+export function acquireLock(
+  client: Etcd3,
+  key: string,
+  sid: string,
+  options: LockOptions = {}
+): Promise<Lease> {
+  const { ttl, timeout, retryDelay } = { ...defaultLockOptions, ...options }
+  const deadline = Date.now() + timeout!
+  const lease = client.lease(ttl!)
+  const attempt = (): Promise<Lease> =>
+    lease
+      .grant()
+      .then(leaseID =>
+        client
+          .if(key, 'Create', '==', 0)
+          .then(
+            client
+              .put(key)
+              .value('')
+              .lease(leaseID)
+          )
+          .commit()
+      )
+      .then(res => {
+        if (res.succeeded) return lease
+        if (Date.now() + retryDelay! > deadline) {
+          throw new SessionLockError(
+            `The session "${sid}" is still locked after ${timeout}ms.`,
+            sid
+          )
+        }
+        return new Promise<Lease>(resolve => setTimeout(() => resolve(attempt()), retryDelay!))
+      })
+  return attempt().catch(err => {
+    lease.revoke().then(
+      () => undefined,
+      () => undefined
+    )
+    throw err
+  })
+}
+
+/**
+ * Get the session ID of the signed session cookie of the request, or `undefined` if it
+ * is missing or not signed with any of the secrets.
+ */
+export function cookieSid(
+  req: Request,
+  name: string,
+  secret: string | string[]
+): string | undefined {
+  const header = req.headers.cookie
+  if (typeof header !== 'string') return undefined
+  const pair = header
+    .split(';')
+    .map(part => part.trim())
+    .find(part => part.startsWith(name + '='))
+  if (!pair) return undefined
+  let value: string
+  try {
+    value = decodeURIComponent(pair.slice(name.length + 1))
+  } catch (err) {
+    return undefined
+  }
+  if (!value.startsWith('s:')) return undefined
+  const signed = value.slice(2)
+  const sid = signed.slice(0, signed.lastIndexOf('.'))
+  const secrets = Array.isArray(secret) ? secret : [secret]
+  return secrets.some(key => isSigned(signed, sid, key)) ? sid : undefined
+}
+
+function isSigned(signed: string, sid: string, secret: string): boolean {
+  const signature = createHmac('sha256', secret)
+    .update(sid)
+    .digest('base64')
+    .replace(/=+$/, '')
+  const expected = Buffer.from(sid + '.' + signature)
+  const actual = Buffer.from(signed)
+  return expected.length === actual.length && timingSafeEqual(expected, actual)
+}
+
+/**
+ * Express middleware running the requests of a session one at a time across all the
+ * instances. Use it before express-session, so the lock is taken before the session
+ * is loaded, and released once the response is sent, after the session is saved:
+ *
+ * ```
+ * app.use(sessionLock(store, { secret: 'keyboard cat' }));
+ * app.use(session({ store, secret: 'keyboard cat' }));
+ * ```
+ *
+ * The requests without a valid session cookie are not locked. The lock failures,
+ * like a `SessionLockError`, are passed to the next error handler.
+ */
+export function sessionLock(
+  store: { lockSession(sid: string, options?: LockOptions): Promise<() => Promise<void>> },
+  options: SessionLockMiddlewareOptions
+): RequestHandler {
+  const { name = 'connect.sid', secret, ...lockOptions } = options
+  return (req, res, next) => {
+    const sid = cookieSid(req, name, secret)
+    if (!sid) return next()
+    store.lockSession(sid, lockOptions).then(release => {
+      let released = false
+      const releasing = () => {
+        if (released) return
+        released = true
+        release().then(
+          () => undefined,
+          () => undefined
+        )
+      }
+      res.on('finish', releasing)
+      res.on('close', releasing)
+      next()
+    }, next)
+  }
+}
@@ -0,0 +1,190 @@
+/**
+ * Operations of the store measured by the metrics.
+ */
+export type MeasuredOperation = 'get' | 'set' | 'touch' | 'destroy'
+
+/**
+ * Instrumentation hook called by the store, to record its metrics into any system.
+ */
+export interface StoreMetrics {
+  /**
+   * Called once an operation completes, with its duration in seconds and the error
+   * given when it failed.
+   */
+  operation(name: MeasuredOperation, seconds: number, error?: any): void
+  /**
+   * Called with the size in bytes of every session value read or written.
+   */
+  payload(name: 'get' | 'set', bytes: number): void
+  /**
+   * Called for every lease granted at etcd.
+   */
+  leaseGranted(): void
+}
+
+/**
+ * Configuration options for the Prometheus metrics.
+ */
+export interface PrometheusMetricsOptions {
+  /**
+   * Prefix of the names of all the metrics.
+   *
+   * Defaults to `express_session_etcd3`.
+   */
+  prefix?: string
+  /**
+   * Upper bounds in seconds of the buckets of the operations duration.
+   */
+  latencyBuckets?: number[]
+  /**
+   * Upper bounds in bytes of the buckets of the payload sizes.
+   */
+  payloadBuckets?: number[]
+}
+
+/**
+ * Content type of the Prometheus text exposition format.
+ */
+export const prometheusContentType = 'text/plain; version=0.0.4; charset=utf-8'
+
+/**
+ * Default configuration values for the Prometheus metrics options
+ */
+export const defaultPrometheusMetricsOptions: PrometheusMetricsOptions = Object.freeze({
+  prefix: 'express_session_etcd3',
+  latencyBuckets: [0.001, 0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5],
+  payloadBuckets: [64, 256, 1024, 4096, 16384, 65536, 262144, 1048576]
+})
+
+/**
+ * Get the class name of the error, like `GRPCConnectFailedError` for the etcd errors.
+ */
+export function errorClass(error: any): string {
+  if (error instanceof Error) return error.constructor.name || error.name
+  return 'unknown'
+}
+
+/**
+ * Cumulative histogram of the observed values, as exposed by Prometheus.
+ */
+class Histogram {
+  counts: number[]
+  sum = 0
+  count = 0
+
+  constructor(public buckets: number[]) {
+    this.counts = buckets.map(() => 0)
+  }
+
+  observe(value: number) {
+    this.buckets.forEach((bucket, i) => {
+      if (value <= bucket) this.counts[i]++
+    })
+    this.sum += value
+    this.count++
+  }
+}
+
+function labels(values: { [name: string]: string }): string {
+  const pairs = Object.keys(values).map(name => {
+    const value = values[name]
+      .replace(/\\/g, '\\\\')
+      .replace(/"/g, '\\"')
+      .replace(/\n/g, '\\n')
+    return `${name}="${value}"`
+  })
+  return `{${pairs.join(',')}}`
+}
+
+/**
+ * Metrics hook keeping the counters and histograms in memory, exported in the
+ * Prometheus text format by `metrics()`:
+ *
+ * ```
+ * const metrics = new PrometheusMetrics();
+ * app.use(session({ store: new Etcd3Store({ metrics }) }));
+ * app.get('/metrics', (req, res) => res.type(prometheusContentType).send(metrics.metrics()));
+ * ```
+ */
+export class PrometheusMetrics implements StoreMetrics {
+  private operations = new Map<string, number>()
+  private errors = new Map<string, { operation: string; error: string; count: number }>()
+  private latencies = new Map<string, Histogram>()
+  private payloads = new Map<string, Histogram>()
+  private leases = 0
+  private options: PrometheusMetricsOptions
+
+  constructor(options: PrometheusMetricsOptions = {}) {
+    this.options = { ...defaultPrometheusMetricsOptions, ...options }
+  }
+
+  operation(name: MeasuredOperation, seconds: number, error?: any) {
+    this.operations.set(name, (this.operations.get(name) || 0) + 1)
+    this.histogram(this.latencies, name, this.options.latencyBuckets!).observe(seconds)
+    if (error === undefined || error === null) return
+    const errorName = errorClass(error)
+    const key = `${name}:${errorName}`
+    const entry = this.errors.get(key) || { operation: name, error: errorName, count: 0 }
+    entry.count++
+    this.errors.set(key, entry)
+  }
+
+  payload(name: 'get' | 'set', bytes: number) {
+    this.histogram(this.payloads, name, this.options.payloadBuckets!).observe(bytes)
+  }
+
+  leaseGranted() {
+    this.leases++
+  }
+
+  /**
+   * Export all the metrics in the Prometheus text format.
+   */
+  metrics(): string {
+    const prefix = this.options.prefix
+    const lines: string[] = []
+    const header = (name: string, type: string, help: string) =>
+      lines.push(`# HELP ${prefix}_${name} ${help}`, `# TYPE ${prefix}_${name} ${type}`)
+
+    header('operations_total', 'counter', 'Number of store operations.')
+    this.operations.forEach((count, operation) =>
+      lines.push(`${prefix}_operations_total${labels({ operation })} ${count}`)
+    )
+    header('errors_total', 'counter', 'Number of failed store operations by error class.')
+    this.errors.forEach(({ operation, error, count }) =>
+      lines.push(`${prefix}_errors_total${labels({ operation, error })} ${count}`)
+    )
+    header('operation_duration_seconds', 'histogram', 'Duration of the store operations.')
+    this.latencies.forEach((histogram, operation) =>
+      this.writeHistogram(lines, 'operation_duration_seconds', operation, histogram)
+    )
+    header('payload_bytes', 'histogram', 'Size of the session values read and written.')
+    this.payloads.forEach((histogram, operation) =>
+      this.writeHistogram(lines, 'payload_bytes', operation, histogram)
+    )
+    header('leases_granted_total', 'counter', 'Number of leases granted at etcd.')
+    lines.push(`${prefix}_leases_granted_total ${this.leases}`)
+    return lines.join('\n') + '\n'
+  }
+
+  private histogram(histograms: Map<string, Histogram>, name: string, buckets: number[]) {
+    let histogram = histograms.get(name)
+    if (!histogram) {
+      histogram = new Histogram(buckets)
+      histograms.set(name, histogram)
+    }
+    return histogram
+  }
+
+  private writeHistogram(lines: string[], name: string, operation: string, histogram: Histogram) {
+    const metric = `${this.options.prefix}_${name}`
+    histogram.buckets.forEach((bucket, i) =>
+      lines.push(
+        `${metric}_bucket${labels({ operation, le: String(bucket) })} ${histogram.counts[i]}`
+      )
+    )
+    lines.push(`${metric}_bucket${labels({ operation, le: '+Inf' })} ${histogram.count}`)
+    lines.push(`${metric}_sum${labels({ operation })} ${histogram.sum}`)
+    lines.push(`${metric}_count${labels({ operation })} ${histogram.count}`)
+  }
+}
@@ -0,0 +1,322 @@
+/**
+ * A small [MessagePack](https://msgpack.org/) encoder and decoder, covering the
+ * types a session can hold. Besides the standard types it writes `Date` with the
+ * timestamp extension, `Map` and `Set` with the extensions below, and `Buffer`
+ * as binary.
+ */
+
+/**
+ * Set the property of the object as its own one, even for a `__proto__` key.
+ */
+function defineEntry(object: { [key: string]: any }, key: string, value: any) {
+  Object.defineProperty(object, key, {
+    value,
+    enumerable: true,
+    writable: true,
+    configurable: true
+  })
+}
+
+/**
+ * MessagePack extension type of the timestamps.
+ */
+const timestampExt = -1
+
+/**
+ * Application extension type of the `Map` entries.
+ */
+const mapExt = 1
+
+/**
+ * Application extension type of the `Set` values.
+ */
+const setExt = 2
+
+const pow32 = 0x100000000
+
+/**
+ * Sequential reader of the MessagePack values from a buffer.
+ */
+class Reader {
+  offset = 0
+
+  constructor(private buffer: Buffer) {}
+
+  read(): any {
+    const code = this.uint(1)
+    if (code < 0x80) return code
+    if (code < 0x90) return this.map(code & 0x0f)
+    if (code < 0xa0) return this.array(code & 0x0f)
+    if (code < 0xc0) return this.string(code & 0x1f)
+    if (code >= 0xe0) return code - 0x100
+    switch (code) {
+      case 0xc0:
+        return null
+      case 0xc2:
+        return false
+      case 0xc3:
+        return true
+      case 0xc4:
+      case 0xc5:
+      case 0xc6:
+        return Buffer.from(this.take(this.uint(1 << (code - 0xc4))))
+      case 0xc7:
+      case 0xc8:
+      case 0xc9:
+        return this.ext(this.uint(1 << (code - 0xc7)))
+      case 0xca:
+        return this.take(4).readFloatBE(0)
+      case 0xcb:
+        return this.take(8).readDoubleBE(0)
+      case 0xcc:
+      case 0xcd:
+      case 0xce:
+        return this.uint(1 << (code - 0xcc))
+      case 0xcf:
+        return this.uint(4) * pow32 + this.uint(4)
+      case 0xd0:
+      case 0xd1:
+      case 0xd2:
+        return this.int(1 << (code - 0xd0))
+      case 0xd3:
+        return this.int(4) * pow32 + this.uint(4)
+      case 0xd4:
+      case 0xd5:
+      case 0xd6:
+      case 0xd7:
+      case 0xd8:
+        return this.ext(1 << (code - 0xd4))
+      case 0xd9:
+      case 0xda:
+      case 0xdb:
+        return this.string(this.uint(1 << (code - 0xd9)))
+      case 0xdc:
+      case 0xdd:
+        return this.array(this.uint(code === 0xdc ? 2 : 4))
+      case 0xde:
+      case 0xdf:
+        return this.map(this.uint(code === 0xde ? 2 : 4))
+    }
+    throw new TypeError(`Unknown MessagePack code 0x${code.toString(16)}.`)
+  }
+
+  private take(size: number): Buffer {
+    if (this.offset + size > this.buffer.length) {
+      throw new RangeError('Unexpected end of the MessagePack data.')
+    }
+    this.offset += size
+    return this.buffer.slice(this.offset - size, this.offset)
+  }
+
+  private uint(size: number): number {
+    return this.take(size).readUIntBE(0, size)
+  }
+
+  private int(size: number): number {
+    return this.take(size).readIntBE(0, size)
+  }
+
+  private string(size: number): string {
+    return this.take(size).toString('utf8')
+  }
+
+  private array(length: number): any[] {
+    const array = []
+    for (let i = 0; i < length; i++) array.push(this.read())
+    return array
+  }
+
+  private map(length: number): { [key: string]: any } {
+    const map: { [key: string]: any } = {}
+    for (let i = 0; i < length; i++) defineEntry(map, String(this.read()), this.read())
+    return map
+  }
+
+  private ext(size: number): any {
+    const type = this.int(1)
+    const data = this.take(size)
+    switch (type) {
+      case timestampExt:
+        return readTimestamp(data)
+      case mapExt:
+        return new Map(decode(data))
+      case setExt:
+        return new Set(decode(data))
+    }
+    throw new TypeError(`Unknown MessagePack extension type ${type}.`)
+  }
+}
+
+/**
+ * Encode the given value as MessagePack.
+ */
+export function encode(value: any): Buffer {
+  const chunks: Buffer[] = []
+  write(chunks, value)
+  return Buffer.concat(chunks)
+}
+
+/**
+ * Decode a value from the given MessagePack buffer.
+ */
+export function decode(buffer: Buffer): any {
+  const reader = new Reader(buffer)
+  const value = reader.read()
+  if (reader.offset !== buffer.length) {
+    throw new TypeError('Unexpected data after the MessagePack value.')
+  }
+  return value
+}
+
+function write(chunks: Buffer[], value: any): void {
+  if (value === null || value === undefined) return writeByte(chunks, 0xc0)
+  switch (typeof value) {
+    case 'boolean':
+      return writeByte(chunks, value ? 0xc3 : 0xc2)
+    case 'number':
+      return writeNumber(chunks, value)
+    case 'string':
+      return writeString(chunks, value)
+  }
+  if (Buffer.isBuffer(value)) return writeBinary(chunks, value)
+  if (value instanceof Date) return writeDate(chunks, value)
+  if (value instanceof Map) {
+    const entries: any[] = []
+    value.forEach((val, key) => entries.push([key, val]))
+    return writeExt(chunks, mapExt, encode(entries))
+  }
+  if (value instanceof Set) {
+    const values: any[] = []
+    value.forEach(val => values.push(val))
+    return writeExt(chunks, setExt, encode(values))
+  }
+  if (Array.isArray(value)) {
+    writeLength(chunks, value.length, 0x90, 0xdc)
+    return value.forEach(item => write(chunks, isSkipped(item) ? null : item))
+  }
+  if (typeof value.toJSON === 'function') return write(chunks, value.toJSON())
+  const keys = Object.keys(value).filter(key => !isSkipped(value[key]))
+  writeLength(chunks, keys.length, 0x80, 0xde)
+  keys.forEach(key => {
+    writeString(chunks, key)
+    write(chunks, value[key])
+  })
+}
+
+/**
+ * Values that JSON leaves out from objects, so does this encoder.
+ */
+function isSkipped(value: any): boolean {
+  return value === undefined || typeof value === 'function' || typeof value === 'symbol'
+}
+
+function writeByte(chunks: Buffer[], byte: number) {
+  chunks.push(Buffer.from([byte]))
+}
+
+function writeNumber(chunks: Buffer[], value: number) {
+  const isInt = Math.floor(value) === value && Math.abs(value) < pow32
+  if (isInt && value >= 0) {
+    if (value < 0x80) return writeByte(chunks, value)
+    if (value < 0x100) return writeHeader(chunks, 0xcc, value, 1)
+    return value < 0x10000
+      ? writeHeader(chunks, 0xcd, value, 2)
+      : writeHeader(chunks, 0xce, value, 4)
+  }
+  if (isInt && value >= -0x80000000) {
+    if (value >= -0x20) return writeByte(chunks, value & 0xff)
+    if (value >= -0x80) return writeHeader(chunks, 0xd0, value, 1, true)
+    return value >= -0x8000
+      ? writeHeader(chunks, 0xd1, value, 2, true)
+      : writeHeader(chunks, 0xd2, value, 4, true)
+  }
+  const buffer = Buffer.alloc(9)
+  buffer[0] = 0xcb
+  buffer.writeDoubleBE(value, 1)
+  chunks.push(buffer)
+}
+
+function writeString(chunks: Buffer[], value: string) {
+  const data = Buffer.from(value, 'utf8')
+  if (data.length < 0x20) {
+    writeByte(chunks, 0xa0 | data.length)
+  } else {
+    writeSized(chunks, data.length, 0xd9)
+  }
+  chunks.push(data)
+}
+
+function writeBinary(chunks: Buffer[], value: Buffer) {
+  writeSized(chunks, value.length, 0xc4)
+  chunks.push(value)
+}
+
+function writeDate(chunks: Buffer[], value: Date) {
+  const time = value.getTime()
+  if (isNaN(time)) throw new TypeError('Invalid dates can not be encoded.')
+  const seconds = Math.floor(time / 1000)
+  const data = Buffer.alloc(12)
+  data.writeUInt32BE((time - seconds * 1000) * 1e6, 0)
+  const high = Math.floor(seconds / pow32)
+  data.writeInt32BE(high, 4)
+  data.writeUInt32BE(seconds - high * pow32, 8)
+  writeExt(chunks, timestampExt, data)
+}
+
+function writeExt(chunks: Buffer[], type: number, data: Buffer) {
+  writeSized(chunks, data.length, 0xc7)
+  chunks.push(Buffer.from([type & 0xff]), data)
+}
+
+/**
+ * Write a type `code` followed by the given integer `value` with `size` bytes.
+ */
+function writeHeader(chunks: Buffer[], code: number, value: number, size: number, signed = false) {
+  const buffer = Buffer.alloc(size + 1)
+  buffer[0] = code
+  if (signed) {
+    buffer.writeIntBE(value, 1, size)
+  } else {
+    buffer.writeUIntBE(value, 1, size)
+  }
+  chunks.push(buffer)
+}
+
+/**
+ * Write the header of a string, binary or extension, using the 8 bits `code`
+ * for small sizes and the two following codes for 16 and 32 bits sizes.
+ */
+function writeSized(chunks: Buffer[], size: number, code: number) {
+  if (size < 0x100) return writeHeader(chunks, code, size, 1)
+  return size < 0x10000
+    ? writeHeader(chunks, code + 1, size, 2)
+    : writeHeader(chunks, code + 2, size, 4)
+}
+
+/**
+ * Write the header of an array or map, using the `fixCode` for small lengths and
+ * the `code` or the following one for 16 and 32 bits lengths.
+ */
+function writeLength(chunks: Buffer[], length: number, fixCode: number, code: number) {
+  if (length < 0x10) return writeByte(chunks, fixCode | length)
+  return length < 0x10000
+    ? writeHeader(chunks, code, length, 2)
+    : writeHeader(chunks, code + 1, length, 4)
+}
+
+function readTimestamp(data: Buffer): Date {
+  switch (data.length) {
+    case 4:
+      return new Date(data.readUInt32BE(0) * 1000)
+    case 8: {
+      const high = data.readUInt32BE(0)
+      const seconds = (high & 0x3) * pow32 + data.readUInt32BE(4)
+      return new Date(seconds * 1000 + Math.floor((high >>> 2) / 1e6))
+    }
+    case 12: {
+      const seconds = data.readInt32BE(4) * pow32 + data.readUInt32BE(8)
+      return new Date(seconds * 1000 + Math.floor(data.readUInt32BE(0) / 1e6))
+    }
+  }
+  throw new TypeError(`Invalid MessagePack timestamp size ${data.length}.`)
+}
@@ -0,0 +1,152 @@
+import { jsonReplacer, jsonReviver } from './serializer'
+
+/**
+ * Line of the NDJSON export of the sessions, like:
+ *
+ * ```
+ * {"sid":"Qb3kx...","session":{"cookie":{"originalMaxAge":86400000,...},"user":42},"ttl":3600}
+ * ```
+ *
+ * Every line is a JSON object holding the session ID (`sid`), the decoded session, and
+ * the remaining time to live in seconds of its lease (`ttl`). A `null` or missing `ttl`
+ * is computed from the session cookie on import, like when it is set.
+ *
+ * The `Date`, `Buffer`, `Map` and `Set` values of the session are written as tagged
+ * objects, like the ones of the JSON serializer, and restored on import:
+ *
+ * ```
+ * {"$type":"Date","$value":1500000000000}
+ * {"$type":"Buffer","$value":"aGVsbG8="}
+ * {"$type":"Map","$value":[["key","value"]]}
+ * {"$type":"Set","$value":[1,2]}
+ * ```
+ */
+export interface SessionRecord {
+  sid: string
+  session: Express.SessionData
+  ttl?: number | null
+}
+
+/**
+ * Modes of the import of the sessions: `overwrite` replaces the sessions already stored
+ * with the imported ones, while `merge` keeps them and only adds the missing sessions.
+ */
+export type ImportMode = 'overwrite' | 'merge'
+
+/**
+ * Configuration options for the import of the sessions.
+ */
+export interface ImportOptions {
+  /**
+   * Defaults to `overwrite`.
+   */
+  mode?: ImportMode
+}
+
+/**
+ * Number of session records of the import by outcome.
+ */
+export interface ImportResult {
+  imported: number
+  /**
+   * Records skipped as their session was already stored, in the `merge` mode.
+   */
+  existing: number
+  /**
+   * Records skipped as their session had already expired.
+   */
+  expired: number
+}
+
+/**
+ * Format the session record as a line of the NDJSON export.
+ */
+export function formatRecord(record: SessionRecord): string {
+  return JSON.stringify(record, jsonReplacer) + '\n'
+}
+
+/**
+ * Parse a line of the NDJSON export, at the given line number.
+ */
+export function parseRecord(line: string, lineNumber: number): SessionRecord {
+  let record: any
+  try {
+    record = JSON.parse(line, jsonReviver)
+  } catch (err) {
+    throw new SyntaxError(`Invalid session record at line ${lineNumber}: ${err.message}`)
+  }
+  const valid =
+    record &&
+    typeof record.sid === 'string' &&
+    record.sid &&
+    record.session &&
+    typeof record.session === 'object' &&
+    (record.ttl === undefined || record.ttl === null || typeof record.ttl === 'number')
+  if (!valid) {
+    throw new SyntaxError(
+      `Invalid session record at line ${lineNumber}: it needs a "sid", a "session" and a numeric "ttl".`
+    )
+  }
+  return record
+}
+
+/**
+ * Read the session records of the NDJSON stream one at a time, waiting for every record
+ * to be handled before reading the next ones. Blank lines are ignored.
+ */
+export function readRecords(
+  stream: NodeJS.ReadableStream,
+  onRecord: (record: SessionRecord) => Promise<void>
+): Promise<void> {
+  return new Promise<void>((resolve, reject) => {
+    let rest = ''
+    let lineNumber = 0
+    let failed = false
+    let handling = Promise.resolve()
+    const handle = async (lines: string[]) => {
+      for (const line of lines) {
+        if (failed) return
+        lineNumber++
+        if (line.trim()) await onRecord(parseRecord(line, lineNumber))
+      }
+    }
+    const fail = (err: any) => {
+      failed = true
+      reject(err)
+    }
+    stream.setEncoding('utf8')
+    stream.on('data', (chunk: string) => {
+      if (failed) return
+      const lines = (rest + chunk).split('\n')
+      rest = lines.pop()!
+      stream.pause()
+      handling = handling
+        .then(() => handle(lines))
+        .then(() => {
+          stream.resume()
+        }, fail)
+    })
+    stream.on('end', () => {
+      handling.then(() => handle([rest])).then(resolve, fail)
+    })
+    stream.on('error', fail)
+  })
+}
+
+/**
+ * Write the line to the stream, waiting for it to drain when its buffer is full. It
+ * rejects when the stream fails meanwhile.
+ */
+export function writeLine(stream: NodeJS.WritableStream, line: string): Promise<void> {
+  return new Promise<void>((resolve, reject) => {
+    if (stream.write(line)) return resolve()
+    const settle = (err?: Error) => {
+      stream.removeListener('drain', settle)
+      stream.removeListener('error', settle)
+      if (err) reject(err)
+      else resolve()
+    }
+    stream.on('drain', settle)
+    stream.on('error', settle)
+  })
+}
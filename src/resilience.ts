@@ -0,0 +1,264 @@
+import {
+  EtcdError,
+  GRPCCancelledError,
+  GRPCConnectFailedError,
+  GRPCDeadlineExceededError,
+  GRPCProtocolError
+} from 'etcd3/lib/src/errors'
+import { CircuitOpenError } from './errors'
+
+/**
+ * Configuration options for the retries of the operations failed with a transient error.
+ */
+export interface RetryOptions {
+  /**
+   * Number of retries of a failed operation.
+   *
+   * Defaults to `2`.
+   */
+  retries?: number
+  /**
+   * Delay in milliseconds before the first retry, doubled before every next one.
+   *
+   * Defaults to `50`.
+   */
+  minDelay?: number
+  /**
+   * Maximum delay in milliseconds before a retry.
+   *
+   * Defaults to `1000`.
+   */
+  maxDelay?: number
+  /**
+   * Function telling whether the error is transient, so the operation is worth retrying.
+   *
+   * Defaults to `isTransientError`.
+   */
+  isTransient?: (error: any) => boolean
+}
+
+/**
+ * Configuration options for the circuit breaker.
+ */
+export interface CircuitBreakerOptions {
+  /**
+   * Number of consecutive operations failed with a transient error opening the circuit.
+   *
+   * Defaults to `5`.
+   */
+  failureThreshold?: number
+  /**
+   * Time in milliseconds the circuit stays open, before a trial operation is let through.
+   *
+   * Defaults to `10000`.
+   */
+  resetTimeout?: number
+}
+
+/**
+ * Store serving the sessions while the circuit is open, like an in-memory one.
+ */
+export interface FallbackStore {
+  get(sid: string, callback: (err: any, session?: Express.SessionData | null) => void): void
+  set(sid: string, session: Express.SessionData, callback?: (err?: any) => void): void
+  destroy(sid: string, callback?: (err?: any) => void): void
+  touch?(sid: string, session: Express.SessionData, callback?: (err?: any) => void): void
+}
+
+/**
+ * Configuration options for the resilience of the store when etcd is unavailable.
+ */
+export interface ResilienceOptions {
+  /**
+   * Option to retry with exponential backoff the operations failed with a transient error.
+   *
+   * Defaults to `false`.
+   */
+  retry?: boolean | RetryOptions
+  /**
+   * Option to fail fast with a `CircuitOpenError` once etcd looks down, until a trial
+   * operation succeeds after the reset timeout. Enabled when a `fallback` is set.
+   *
+   * Defaults to `false`.
+   */
+  circuitBreaker?: boolean | CircuitBreakerOptions
+  /**
+   * Store serving the reads and writes while the circuit is open. The sessions written to
+   * it are not copied back to etcd once it closes.
+   */
+  fallback?: FallbackStore
+}
+
+/**
+ * States of the circuit breaker: `open` while failing fast, `half-open` while a trial
+ * operation is let through, and `closed` otherwise.
+ */
+export type CircuitState = 'closed' | 'open' | 'half-open'
+
+/**
+ * Transition of the circuit breaker, emitted as the `circuit` event of the store.
+ */
+export interface CircuitEvent {
+  from: CircuitState
+  to: CircuitState
+  /**
+   * The error of the operation that opened the circuit.
+   */
+  error?: any
+}
+
+/**
+ * Default configuration values for the retry options
+ */
+export const defaultRetryOptions: RetryOptions = Object.freeze({
+  retries: 2,
+  minDelay: 50,
+  maxDelay: 1000
+})
+
+/**
+ * Default configuration values for the circuit breaker options
+ */
+export const defaultCircuitBreakerOptions: CircuitBreakerOptions = Object.freeze({
+  failureThreshold: 5,
+  resetTimeout: 10000
+})
+
+/**
+ * Messages of the etcd errors given while the cluster has no leader or is overloaded.
+ */
+const transientEtcdMessage = /etcdserver: (no leader|leader changed|request timed out|too many requests)/
+
+/**
+ * Tell whether the error is given while etcd is unreachable, electing a leader or overloaded.
+ */
+export function isTransientError(error: any): boolean {
+  return (
+    error instanceof GRPCConnectFailedError ||
+    error instanceof GRPCProtocolError ||
+    error instanceof GRPCCancelledError ||
+    error instanceof GRPCDeadlineExceededError ||
+    (error instanceof EtcdError && transientEtcdMessage.test(error.message))
+  )
+}
+
+/**
+ * Get the delay in milliseconds before the given retry, growing exponentially with a
+ * random jitter, so the instances do not all retry at once.
+ */
+export function retryDelay(retry: number, options: RetryOptions): number {
+  const {
+    minDelay = defaultRetryOptions.minDelay!,
+    maxDelay = defaultRetryOptions.maxDelay!
+  } = options
+  const delay = Math.min(maxDelay, minDelay * Math.pow(2, retry))
+  return delay / 2 + (Math.random() * delay) / 2
+}
+
+/**
+ * Circuit breaker opened by consecutive failures, letting a single trial operation through
+ * once its reset timeout is over.
+ */
+export class CircuitBreaker {
+  state: CircuitState = 'closed'
+  private failures = 0
+  private openedAt = 0
+  private trying = false
+  private failureThreshold: number
+  private resetTimeout: number
+
+  constructor(options: CircuitBreakerOptions, private onChange: (event: CircuitEvent) => void) {
+    const { failureThreshold, resetTimeout } = { ...defaultCircuitBreakerOptions, ...options }
+    this.failureThreshold = failureThreshold!
+    this.resetTimeout = resetTimeout!
+  }
+
+  /**
+   * Tell whether an operation can be tried now.
+   */
+  allow(): boolean {
+    if (this.state === 'open' && Date.now() - this.openedAt >= this.resetTimeout) {
+      this.transition('half-open')
+    }
+    if (this.state !== 'half-open') return this.state === 'closed'
+    if (this.trying) return false
+    this.trying = true
+    return true
+  }
+
+  success() {
+    this.failures = 0
+    this.trying = false
+    if (this.state !== 'closed') this.transition('closed')
+  }
+
+  failure(error: any) {
+    this.failures++
+    this.trying = false
+    if (this.state === 'half-open' || this.failures >= this.failureThreshold) {
+      this.openedAt = Date.now()
+      if (this.state !== 'open') this.transition('open', error)
+    }
+  }
+
+  private transition(to: CircuitState, error?: any) {
+    const event: CircuitEvent = { from: this.state, to }
+    if (error !== undefined) event.error = error
+    this.state = to
+    this.onChange(event)
+  }
+}
+
+/**
+ * Runs the operations with retries and a circuit breaker, falling back to another store
+ * while the circuit is open.
+ */
+export class Resilience {
+  breaker?: CircuitBreaker
+  fallback?: FallbackStore
+  private retry?: RetryOptions
+
+  constructor(options: ResilienceOptions, onCircuit: (event: CircuitEvent) => void) {
+    const { retry, circuitBreaker, fallback } = options
+    this.fallback = fallback
+    if (retry) this.retry = { ...defaultRetryOptions, ...(retry === true ? {} : retry) }
+    if (circuitBreaker || fallback) {
+      this.breaker = new CircuitBreaker(
+        circuitBreaker === true ? {} : circuitBreaker || {},
+        onCircuit
+      )
+    }
+  }
+
+  /**
+   * Run the `attempt`, retrying it when it fails with a transient error. The `fallback` is
+   * run instead while the circuit is open, otherwise it fails with a `CircuitOpenError`.
+   */
+  run(
+    attempt: (callback: (err: any, value?: any) => void) => void,
+    fallback: ((callback: (err: any, value?: any) => void) => void) | undefined,
+    callback: (err: any, value?: any) => void
+  ) {
+    const { retries = 0, isTransient = isTransientError } = this.retry || {}
+    const breaker = this.breaker
+    const tryAttempt = (retry: number) => {
+      if (breaker && !breaker.allow()) {
+        if (fallback) return fallback(callback)
+        return callback(new CircuitOpenError('The circuit is open, etcd looks unavailable.'))
+      }
+      attempt((err, value) => {
+        const transient = !!err && isTransient(err)
+        if (breaker && transient) breaker.failure(err)
+        if (breaker && !transient) breaker.success()
+        if (!transient) return callback(err, value)
+        if (retry < retries) {
+          setTimeout(() => tryAttempt(retry + 1), retryDelay(retry, this.retry!))
+          return
+        }
+        if (fallback && breaker && breaker.state === 'open') return fallback(callback)
+        callback(err, value)
+      })
+    }
+    tryAttempt(0)
+  }
+}
@@ -0,0 +1,118 @@
+import * as msgpack from './msgpack'
+
+/**
+ * Codec used to turn sessions into the values stored at etcd and back.
+ */
+export interface Serializer {
+  /**
+   * Unique name of the serializer, written into the header of every value so it
+   * can still be read after the store moves to another serializer.
+   */
+  name: string
+  serialize(session: Express.SessionData): Buffer | string
+  deserialize(value: Buffer): Express.SessionData
+}
+
+/**
+ * Key used to tag the JSON objects holding a value of a type JSON can't represent.
+ */
+const typeTag = '$type'
+
+/**
+ * Key used to hold the tagged value.
+ */
+const valueTag = '$value'
+
+function tag(type: string, value: any) {
+  return { [typeTag]: type, [valueTag]: value }
+}
+
+/**
+ * Set the property of the object as its own one, even for a `__proto__` key.
+ */
+function defineEntry(object: { [key: string]: any }, key: string, value: any) {
+  Object.defineProperty(object, key, {
+    value,
+    enumerable: true,
+    writable: true,
+    configurable: true
+  })
+}
+
+/**
+ * Tags the values that `JSON.stringify` would turn into something else, like
+ * `{"$type":"Date","$value":1500000000000}`. The raw value is taken from the holder
+ * (`this`), since dates and buffers are already converted by their `toJSON` at this point.
+ * The objects of the session having a `$type` key are tagged as an `Object` with their
+ * entries, so they are never read back as another type.
+ */
+export function jsonReplacer(this: any, key: string, value: any) {
+  const raw = this[key]
+  if (raw instanceof Date) return tag('Date', raw.getTime())
+  if (Buffer.isBuffer(raw)) return tag('Buffer', raw.toString('base64'))
+  if (raw instanceof Map) {
+    const entries: any[] = []
+    raw.forEach((val, k) => entries.push([k, val]))
+    return tag('Map', entries)
+  }
+  if (raw instanceof Set) {
+    const values: any[] = []
+    raw.forEach(val => values.push(val))
+    return tag('Set', values)
+  }
+  if (value && typeof value === 'object' && !Array.isArray(value) && typeTag in value) {
+    return tag(
+      'Object',
+      Object.keys(value).map(k => [k, value[k]])
+    )
+  }
+  return value
+}
+
+/**
+ * Restores the values tagged by the `jsonReplacer`, for `JSON.parse`.
+ */
+export function jsonReviver(key: string, value: any) {
+  if (!value || typeof value !== 'object' || Object.keys(value).length !== 2) return value
+  const raw = value[valueTag]
+  switch (value[typeTag]) {
+    case 'Date':
+      return new Date(raw)
+    case 'Buffer':
+      return Buffer.from(raw, 'base64')
+    case 'Map':
+      return new Map(raw)
+    case 'Set':
+      return new Set(raw)
+    case 'Object':
+      const object: { [key: string]: any } = {}
+      raw.forEach(([k, val]: [string, any]) => defineEntry(object, k, val))
+      return object
+  }
+  return value
+}
+
+/**
+ * Serializer writing sessions as JSON, keeping `Date`, `Buffer`, `Map` and `Set`
+ * values through tagged objects.
+ */
+export const jsonSerializer: Serializer = Object.freeze({
+  name: 'json',
+  serialize: (session: Express.SessionData) => JSON.stringify(session, jsonReplacer),
+  deserialize: (value: Buffer) => JSON.parse(value.toString('utf8'), jsonReviver)
+})
+
+/**
+ * Binary serializer writing sessions as [MessagePack](https://msgpack.org/).
+ * It is more compact than JSON and keeps `Date`, `Buffer`, `Map` and `Set` values.
+ */
+export const msgpackSerializer: Serializer = Object.freeze({
+  name: 'msgpack',
+  serialize: (session: Express.SessionData) => msgpack.encode(session),
+  deserialize: (value: Buffer) => msgpack.decode(value)
+})
+
+/**
+ * Serializers that can always be read, whatever serializer the store writes with.
+ */
+export const builtInSerializers: ReadonlyArray<Serializer> = [jsonSerializer, msgpackSerializer]
@@ -0,0 +1,93 @@
+/**
+ * Configuration options for the throttling of the touches of the sessions.
+ */
+export interface TouchThrottleOptions {
+  /**
+   * Fraction of the ttl of the session under which the lease left is refreshed.
+   *
+   * Defaults to `0.5`.
+   */
+  ratio?: number
+  /**
+   * Seconds of lease left under which it is refreshed, used instead of the `ratio`.
+   */
+  remaining?: number
+  /**
+   * Maximum number of leases tracked, the least recently written ones are forgotten
+   * first, and their sessions touched again.
+   *
+   * Defaults to `10000`.
+   */
+  max?: number
+}
+
+/**
+ * Default configuration values for the touch throttle options
+ */
+export const defaultTouchThrottleOptions: TouchThrottleOptions = Object.freeze({
+  ratio: 0.5,
+  max: 10000
+})
+
+interface TrackedLease {
+  ttl: number
+  expiresAt: number
+}
+
+/**
+ * In-process record of when the leases of the sessions written or touched by this
+ * instance expire, keyed by their etcd key, telling whether a touch is due without
+ * asking etcd.
+ *
+ * Leases refreshed by other instances only expire later than recorded, so their
+ * sessions are at worst touched earlier than needed.
+ */
+export class TouchThrottle {
+  private leases = new Map<string, TrackedLease>()
+  private max: number
+
+  constructor(private options: TouchThrottleOptions = {}) {
+    this.max = options.max === undefined ? defaultTouchThrottleOptions.max! : options.max
+  }
+
+  /**
+   * Record the lease of the key as refreshed now with the given ttl.
+   */
+  refreshed(key: string, ttl: number, now = Date.now()) {
+    if (this.max <= 0) return
+    this.leases.delete(key)
+    this.leases.set(key, { ttl, expiresAt: now + ttl * 1000 })
+    if (this.leases.size > this.max) {
+      this.leases.delete(this.leases.keys().next().value)
+    }
+  }
+
+  /**
+   * Tell whether the lease of the key has to be refreshed with the given ttl: when it
+   * is not tracked, the ttl grew by more than the threshold since it was granted, or it
+   * has less left than the threshold. A ttl off by a second, like the one of a cookie
+   * `maxAge` rounded down, does not make it due.
+   */
+  due(key: string, ttl: number, now = Date.now()): boolean {
+    const lease = this.leases.get(key)
+    if (!lease) return true
+    const { ratio = defaultTouchThrottleOptions.ratio!, remaining } = this.options
+    const threshold = remaining === undefined ? ttl * ratio : remaining
+    if (ttl - lease.ttl > threshold) return true
+    return lease.expiresAt - now < threshold * 1000
+  }
+
+  /**
+   * Forget the lease of the key, destroyed.
+   */
+  forget(key: string) {
+    this.leases.delete(key)
+  }
+
+  /**
+   * Forget all the leases.
+   */
+  clear() {
+    this.leases.clear()
+  }
+}
@@ -0,0 +1,75 @@
+import { InvalidSessionError } from './errors'
+
+/**
+ * Function checking a decoded session, returning `false` if it is not valid. It may also
+ * throw an error telling why.
+ */
+export type SessionValidator = (session: Express.SessionData, sid: string) => boolean
+
+/**
+ * Configuration options for the validation of the sessions read.
+ */
+export interface ValidationOptions {
+  /**
+   * Function checking the decoded sessions, once they are known to have a `cookie` object.
+   */
+  validator?: SessionValidator
+  /**
+   * Time in seconds the quarantined sessions are kept for inspection, as the ttl of
+   * their lease, so they don't keep the session data once it is gone.
+   *
+   * Defaults to `86400`, a day.
+   */
+  retention?: number
+}
+
+/**
+ * Default configuration values for the validation options
+ */
+export const defaultValidationOptions: ValidationOptions = Object.freeze({
+  retention: 86400
+})
+
+/**
+ * Emitted as the `quarantined` event when an invalid session is moved to the quarantine.
+ */
+export interface QuarantineEvent {
+  sid: string
+  /**
+   * The etcd key of the quarantined value.
+   */
+  key: string
+  error: InvalidSessionError
+}
+
+/**
+ * Check the decoded session is an object with a `cookie` object, accepted by the
+ * `validator` if any, or throw an `InvalidSessionError`.
+ */
+export function validateSession(session: any, sid: string, validator?: SessionValidator) {
+  if (!session || typeof session !== 'object' || Array.isArray(session)) {
+    throw new InvalidSessionError('The session is not an object.')
+  }
+  if (!session.cookie || typeof session.cookie !== 'object') {
+    throw new InvalidSessionError('The session has no `cookie` object.')
+  }
+  if (!validator) return
+  let valid: boolean
+  try {
+    valid = validator(session, sid)
+  } catch (err) {
+    throw new InvalidSessionError(`The session was rejected by the validator: ${err.message}`)
+  }
+  if (!valid) throw new InvalidSessionError('The session was rejected by the validator.')
+}
+
+/**
+ * Parse a stored session value, giving an `InvalidSessionError` if it fails.
+ */
+export function parseSession<T>(parse: () => T): T {
+  try {
+    return parse()
+  } catch (err) {
+    throw new InvalidSessionError(`The session can not be parsed: ${err.message}`)
+  }
+}
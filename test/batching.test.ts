@@ -0,0 +1,98 @@
+import { WriteBatcher } from '../src/batching'
+
+describe('Write batcher test suit', () => {
+  function createBatcher(options = {}) {
+    const batches: string[][] = []
+    const send = jest.fn((writes: string[]) => {
+      batches.push(writes)
+      return Promise.resolve()
+    })
+    return { batcher: new WriteBatcher<string>(send, options), send, batches }
+  }
+
+  it('should send the writes of the window in a single batch', async () => {
+    const { batcher, batches } = createBatcher()
+    await Promise.all([batcher.add('a', 'a1'), batcher.add('b', 'b1')])
+    expect(batches).toEqual([['a1', 'b1']])
+  })
+
+  it('should collapse the writes of a key into the last one', async () => {
+    const { batcher, batches } = createBatcher()
+    const first = batcher.add('a', 'a1')
+    const last = batcher.add('a', 'a2')
+    await Promise.all([first, last])
+    expect(batches).toEqual([['a2']])
+  })
+
+  it('should send the batch as soon as it reaches the max size', () => {
+    const { batcher, send } = createBatcher({ maxSize: 2, maxDelay: 1000 })
+    batcher.add('a', 'a1')
+    expect(send).not.toHaveBeenCalled()
+    const sending = batcher.add('b', 'b1')
+    return sending.then(() => expect(send).toHaveBeenCalledWith(['a1', 'b1']))
+  })
+
+  it('should send the pending writes at once for a pending key', async () => {
+    const { batcher, send } = createBatcher({ maxDelay: 1000 })
+    const sending = batcher.add('a', 'a1')
+    expect(batcher.flushKey('b')).toBeUndefined()
+    expect(send).not.toHaveBeenCalled()
+    await batcher.flushKey('a')
+    await sending
+    expect(send).toHaveBeenCalledWith(['a1'])
+  })
+
+  it('should wait for the max delay', async () => {
+    const { batcher, send } = createBatcher({ maxDelay: 50 })
+    const sending = batcher.add('a', 'a1')
+    await new Promise(resolve => setTimeout(resolve, 20))
+    expect(send).not.toHaveBeenCalled()
+    await sending
+    expect(send).toHaveBeenCalledTimes(1)
+  })
+
+  it('should give the error of the batch to all its callers', async () => {
+    const error = new Error()
+    const batcher = new WriteBatcher<string>(() => Promise.reject(error))
+    const results = await Promise.all(
+      ['a', 'b'].map(key =>
+        batcher.add(key, key).then(
+          () => undefined,
+          err => err
+        )
+      )
+    )
+    expect(results).toEqual([error, error])
+  })
+
+  it('should let a caller join the pending write of a key', async () => {
+    const { batcher, send } = createBatcher()
+    expect(batcher.join('a')).toBeUndefined()
+    const sending = batcher.add('a', 'a1')
+    await Promise.all([sending, batcher.join('a')])
+    expect(send).toHaveBeenCalledTimes(1)
+  })
+
+  it('should send the pending writes on flush', async () => {
+    const { batcher, send } = createBatcher({ maxDelay: 1000 })
+    const sending = batcher.add('a', 'a1')
+    await batcher.flush()
+    expect(send).toHaveBeenCalledWith(['a1'])
+    await sending
+  })
+
+  it('should wait for the batches already sent on flush', async () => {
+    let sent!: () => void
+    const batcher = new WriteBatcher<string>(() => new Promise<void>(resolve => (sent = resolve)), {
+      maxSize: 1
+    })
+    const sending = batcher.add('a', 'a1')
+    let flushed = false
+    const flushing = batcher.flush().then(() => (flushed = true))
+    await new Promise(resolve => setImmediate(resolve))
+    expect(flushed).toBe(false)
+    sent()
+    await Promise.all([sending, flushing])
+    expect(flushed).toBe(true)
+  })
+})
@@ -0,0 +1,74 @@
+import { SessionCache } from '../src/cache'
+
+describe('SessionCache test suit', () => {
+  const value = Buffer.from('value')
+
+  afterEach(() => jest.restoreAllMocks())
+
+  function createSubject(options = {}) {
+    const subject = new SessionCache(options)
+    subject.activate()
+    return subject
+  }
+
+  it('should return the cached values counting the hits', () => {
+    const subject = createSubject()
+    subject.set('key', value, subject.generation)
+    expect(subject.get('key')).toBe(value)
+    expect(subject.stats()).toEqual({ hits: 1, misses: 0, size: 1 })
+  })
+
+  it('should count the misses', () => {
+    const subject = createSubject()
+    expect(subject.get('key')).toBeUndefined()
+    expect(subject.stats()).toEqual({ hits: 0, misses: 1, size: 0 })
+  })
+
+  it('should evict the least recently used value when it is full', () => {
+    const subject = createSubject({ max: 2 })
+    subject.set('a', value, subject.generation)
+    subject.set('b', value, subject.generation)
+    subject.get('a')
+    subject.set('c', value, subject.generation)
+    expect(subject.get('a')).toBe(value)
+    expect(subject.get('b')).toBeUndefined()
+    expect(subject.get('c')).toBe(value)
+  })
+
+  it('should expire the values after the ttl', () => {
+    const subject = createSubject({ ttl: 10 })
+    const now = Date.now()
+    const spy = jest.spyOn(Date, 'now').mockReturnValue(now)
+    subject.set('key', value, subject.generation)
+    spy.mockReturnValue(now + 10001)
+    expect(subject.get('key')).toBeUndefined()
+    expect(subject.stats().size).toBe(0)
+  })
+
+  it('should not cache a value read before an eviction', () => {
+    const subject = createSubject()
+    const generation = subject.generation
+    subject.delete('key')
+    subject.set('key', value, generation)
+    expect(subject.get('key')).toBeUndefined()
+  })
+
+  it('should evict the deleted and cleared keys', () => {
+    const subject = createSubject()
+    subject.set('a', value, subject.generation)
+    subject.set('b', value, subject.generation)
+    subject.delete('a')
+    expect(subject.get('a')).toBeUndefined()
+    subject.clear()
+    expect(subject.get('b')).toBeUndefined()
+  })
+
+  it('should not be used while it is not active', () => {
+    const subject = createSubject()
+    subject.set('key', value, subject.generation)
+    subject.deactivate()
+    expect(subject.get('key')).toBeUndefined()
+    subject.set('key', value, subject.generation)
+    expect(subject.stats().size).toBe(0)
+  })
+})
@@ -0,0 +1,43 @@
+import { chunkKey, joinChunks, readManifest, splitValue } from '../src/chunking'
+import { FrameType, writeFrame } from '../src/envelope'
+
+describe('Chunking test suit', () => {
+  const value = Buffer.from('0123456789')
+
+  it('should split the value into chunks of the chunk size', () => {
+    const { chunks } = splitValue(value, 4)
+    expect(chunks.map(chunk => chunk.toString())).toEqual(['0123', '4567', '89'])
+  })
+
+  it('should read back the manifest of the split value', () => {
+    const { manifest, generation } = splitValue(value, 4)
+    expect(generation).toMatch(/^[0-9a-f]{16}$/)
+    expect(readManifest(manifest)).toEqual({ generation, count: 3 })
+  })
+
+  it('should give a new generation for every split', () => {
+    expect(splitValue(value, 4).generation).not.toBe(splitValue(value, 4).generation)
+  })
+
+  it('should not read a manifest from the other values', () => {
+    expect(readManifest(value)).toBeUndefined()
+    expect(readManifest(writeFrame(FrameType.Serialized, 'json', value))).toBeUndefined()
+  })
+
+  it('should join the chunks back into the value', () => {
+    const { manifest, chunks } = splitValue(value, 3)
+    expect(joinChunks(readManifest(manifest)!, chunks)).toEqual(value)
+  })
+
+  it('should not join the chunks when some are missing', () => {
+    const { manifest, chunks } = splitValue(value, 3)
+    delete chunks[1]
+    expect(joinChunks(readManifest(manifest)!, chunks)).toBeUndefined()
+    expect(joinChunks(readManifest(manifest)!, chunks.slice(0, 1))).toBeUndefined()
+  })
+
+  it('should build the chunk keys under the generation', () => {
+    expect(chunkKey('sess/sid', 'abc', '2')).toBe('sess/sid/abc/2')
+    expect(chunkKey('sess/sid', 'abc')).toBe('sess/sid/abc/')
+  })
+})
@@ -0,0 +1,129 @@
+import { Etcd3 } from 'etcd3'
+import { parseArgs, run, usage } from '../src/cli'
+import { defaultOptions } from '../src/express-session-etcd3'
+import { anotherPrefix, createTestClientAndKeys, sessionData, tearDownTestClient } from './utils'
+
+describe('CLI test suit', () => {
+  let client: Etcd3
+  const connection = [
+    '--hosts',
+    process.env.ETCD_ADDR || '127.0.0.1:2379',
+    '--ca',
+    `${__dirname}/certs/certs/ca.crt`
+  ]
+
+  async function execute(...argv: string[]) {
+    const output = { log: jest.fn(), error: jest.fn() }
+    const code = await run([...argv, ...connection], output)
+    const lines = (mock: jest.Mock) => mock.mock.calls.map(call => call[0])
+    return { code, log: lines(output.log), error: lines(output.error) }
+  }
+
+  beforeEach(async () => {
+    client = await createTestClientAndKeys({}, [
+      [defaultOptions.prefix + '/other', JSON.stringify({ user: { id: 'u1' } })]
+    ])
+  })
+
+  afterEach(() => tearDownTestClient(client))
+
+  describe('when parsing the arguments', () => {
+    it('should give the command, its arguments and the flags', () => {
+      expect(
+        parseArgs(['destroy', 'a', '--prefix=p1', 'b', '--prefix', 'p2', '--dry-run'])
+      ).toEqual({
+        command: 'destroy',
+        args: ['a', 'b'],
+        flags: { prefix: ['p1', 'p2'], 'dry-run': ['true'] }
+      })
+    })
+
+    it('should refuse the unknown options', () => {
+      expect(() => parseArgs(['list', '--nope'])).toThrow('Unknown option --nope.')
+    })
+
+    it('should refuse the options without value', () => {
+      expect(() => parseArgs(['list', '--prefix'])).toThrow('Missing the value of --prefix.')
+    })
+  })
+
+  it('should show the usage', async () => {
+    const output = { log: jest.fn(), error: jest.fn() }
+    expect(await run(['--help'], output)).toBe(0)
+    expect(output.log).toHaveBeenCalledWith(usage)
+  })
+
+  it('should fail with the usage on unknown commands', async () => {
+    const { code, error } = await execute('nope')
+    expect(code).toBe(2)
+    expect(error[0]).toContain('Unknown command "nope".')
+  })
+
+  it('should list the sessions with their ttl', async () => {
+    await client
+      .lease(100)
+      .put(defaultOptions.prefix + '/leased')
+      .value(JSON.stringify(sessionData))
+    const { code, log } = await execute('list')
+    expect(code).toBe(0)
+    expect(log).toHaveLength(3)
+    expect(log[0]).toMatch(/^leased\t\d+s$/)
+    expect(log.slice(1)).toEqual(['other\tno lease', sessionData.sid + '\tno lease'])
+  })
+
+  it('should list at most the limit of sessions', async () => {
+    const { log } = await execute('list', '--limit', '1')
+    expect(log).toEqual(['other\tno lease'])
+  })
+
+  it('should show a decoded session', async () => {
+    const { code, log } = await execute('show', sessionData.sid)
+    expect(code).toBe(0)
+    expect(JSON.parse(log[0])).toEqual({ sid: sessionData.sid, ttl: null, session: sessionData })
+  })
+
+  it('should fail to show a missing session', async () => {
+    const { code, error } = await execute('show', 'nope')
+    expect(code).toBe(1)
+    expect(error).toEqual(['No session "nope".'])
+  })
+
+  it('should destroy the given sessions', async () => {
+    const { log } = await execute('destroy', sessionData.sid, 'nope')
+    expect(log).toEqual([sessionData.sid, 'Destroyed 1 session(s).'])
+    expect(await client.get(defaultOptions.prefix + '/' + sessionData.sid).string()).toBeNull()
+  })
+
+  it('should not destroy anything in dry-run mode', async () => {
+    const { log } = await execute('destroy', sessionData.sid, 'nope', '--dry-run')
+    expect(log).toEqual([sessionData.sid, 'Would destroy 1 session(s).'])
+    expect(await client.get(defaultOptions.prefix + '/' + sessionData.sid).string()).not.toBeNull()
+  })
+
+  it('should need the user field to destroy the sessions of a user', async () => {
+    const { code, error } = await execute('destroy', '--user', 'u1')
+    expect(code).toBe(2)
+    expect(error[0]).toContain('needs --user-field')
+  })
+
+  it('should count the sessions of every prefix', async () => {
+    const { log } = await execute(
+      'count',
+      '--prefix',
+      defaultOptions.prefix,
+      '--prefix',
+      anotherPrefix
+    )
+    expect(log).toEqual([`${defaultOptions.prefix}\t2`, `${anotherPrefix}\t1`])
+  })
+
+  it('should purge the sessions of the prefix', async () => {
+    expect((await execute('purge', '--dry-run')).log).toEqual([
+      `Would destroy 2 session(s) at prefix "${defaultOptions.prefix}".`
+    ])
+    expect((await execute('purge')).log).toEqual([
+      `Destroyed 2 session(s) at prefix "${defaultOptions.prefix}".`
+    ])
+    expect((await execute('count')).log).toEqual([`${defaultOptions.prefix}\t0`])
+  })
+})
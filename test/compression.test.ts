@@ -0,0 +1,28 @@
+import { compress, compressionAlgorithm, decompress } from '../src/compression'
+import { FrameType, readFrame, writeFrame } from '../src/envelope'
+
+describe('Compression test suit', () => {
+  const value = Buffer.from(JSON.stringify({ cart: new Array(500).fill({ item: 'book' }) }))
+
+  it('should write a compressed frame with the algorithm name', () => {
+    const frame = readFrame(compress(value))
+    expect(frame.type).toBe(FrameType.Compressed)
+    expect(frame.meta).toBe(compressionAlgorithm)
+    expect(frame.payload.length).toBeLessThan(value.length)
+  })
+
+  it('should read back the compressed value', () => {
+    expect(decompress(readFrame(compress(value)))).toEqual(value)
+  })
+
+  it('should use the given compression level', () => {
+    const fastest = compress(value, { level: 0 })
+    const best = compress(value, { level: 9 })
+    expect(best.length).toBeLessThan(fastest.length)
+  })
+
+  it('should throw an error for an unknown algorithm', () => {
+    const frame = readFrame(writeFrame(FrameType.Compressed, 'lz4', value))
+    expect(() => decompress(frame)).toThrowError(TypeError)
+  })
+})
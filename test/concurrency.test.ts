@@ -0,0 +1,22 @@
+import { getRevision, revisionField, withoutRevision } from '../src/concurrency'
+
+describe('Concurrency test suit', () => {
+  const sessionData = {
+    cookie: { originalMaxAge: 10, path: '/', maxAge: 10, expires: null, httpOnly: true }
+  }
+
+  it('should get the revision recorded at the session', () => {
+    expect(getRevision({ ...sessionData, [revisionField]: '12' })).toBe('12')
+    expect(getRevision(sessionData)).toBeUndefined()
+  })
+
+  it('should copy the session without its revision', () => {
+    const session = { ...sessionData, [revisionField]: '12' }
+    expect(withoutRevision(session)).toEqual(sessionData)
+    expect(session[revisionField]).toBe('12')
+  })
+
+  it('should keep the same session when it has no revision', () => {
+    expect(withoutRevision(sessionData)).toBe(sessionData)
+  })
+})
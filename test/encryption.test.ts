@@ -0,0 +1,85 @@
+import { randomBytes } from 'crypto'
+import { Encryptor } from '../src/encryption'
+import { FrameType, readFrame } from '../src/envelope'
+import { DecryptionError } from '../src/errors'
+
+describe('Encryptor test suit', () => {
+  const oldKey = { id: 'old', key: randomBytes(32) }
+  const newKey = { id: 'new', key: randomBytes(32).toString('base64') }
+  const value = Buffer.from('some session value')
+  const context = 'sess/sid'
+
+  it('should encrypt with the first key by default', () => {
+    const subject = new Encryptor({ keys: [newKey, oldKey] })
+    const frame = readFrame(subject.encrypt(value, context))
+    expect(frame.type).toBe(FrameType.Encrypted)
+    expect(frame.meta).toBe('new')
+    expect(frame.payload.indexOf(value)).toBe(-1)
+  })
+
+  it('should encrypt with the configured current key', () => {
+    const subject = new Encryptor({ keys: [newKey, oldKey], currentKeyId: 'old' })
+    expect(readFrame(subject.encrypt(value, context)).meta).toBe('old')
+  })
+
+  it('should decrypt values written with any of the keys', () => {
+    const previous = new Encryptor({ keys: [oldKey] })
+    const subject = new Encryptor({ keys: [newKey, oldKey] })
+    expect(subject.decrypt(readFrame(previous.encrypt(value, context)), context)).toEqual(value)
+    expect(subject.decrypt(readFrame(subject.encrypt(value, context)), context)).toEqual(value)
+  })
+
+  it('should use a new IV for every value', () => {
+    const subject = new Encryptor({ keys: [newKey] })
+    expect(subject.encrypt(value, context)).not.toEqual(subject.encrypt(value, context))
+  })
+
+  it('should throw a DecryptionError for values written with an unknown key', () => {
+    const previous = new Encryptor({ keys: [oldKey] })
+    const subject = new Encryptor({ keys: [newKey] })
+    expect(() =>
+      subject.decrypt(readFrame(previous.encrypt(value, context)), context)
+    ).toThrowError(DecryptionError)
+  })
+
+  it('should throw a DecryptionError for tampered values', () => {
+    const subject = new Encryptor({ keys: [newKey] })
+    const frame = readFrame(subject.encrypt(value, context))
+    frame.payload[frame.payload.length - 1] ^= 1
+    expect(() => subject.decrypt(frame, context)).toThrowError(DecryptionError)
+  })
+
+  it('should throw a DecryptionError for values moved to another key ID', () => {
+    const subject = new Encryptor({ keys: [newKey, { id: 'copy', key: newKey.key }] })
+    const frame = { ...readFrame(subject.encrypt(value, context)), meta: 'copy' }
+    expect(() => subject.decrypt(frame, context)).toThrowError(DecryptionError)
+  })
+
+  it('should throw a DecryptionError for values moved to another context', () => {
+    const subject = new Encryptor({ keys: [newKey] })
+    const frame = readFrame(subject.encrypt(value, context))
+    expect(() => subject.decrypt(frame, 'sess/another')).toThrowError(DecryptionError)
+  })
+
+  it('should throw a DecryptionError for truncated values', () => {
+    const subject = new Encryptor({ keys: [newKey] })
+    const frame = readFrame(subject.encrypt(value, context))
+    expect(() =>
+      subject.decrypt({ ...frame, payload: frame.payload.slice(0, 10) }, context)
+    ).toThrowError(DecryptionError)
+  })
+
+  it('should refuse an empty list of keys', () => {
+    expect(() => new Encryptor({ keys: [] })).toThrowError(TypeError)
+  })
+
+  it('should refuse keys with the wrong size', () => {
+    expect(() => new Encryptor({ keys: [{ id: 'short', key: randomBytes(16) }] })).toThrowError(
+      RangeError
+    )
+  })
+
+  it('should refuse an unknown current key', () => {
+    expect(() => new Encryptor({ keys: [oldKey], currentKeyId: 'new' })).toThrowError(TypeError)
+  })
+})
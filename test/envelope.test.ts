@@ -0,0 +1,52 @@
+import {
+  envelopeMagic,
+  envelopeVersion,
+  FrameType,
+  isEnvelope,
+  readFrame,
+  writeFrame
+} from '../src/envelope'
+
+describe('Envelope test suit', () => {
+  const payload = Buffer.from('{"a":1}')
+
+  it('should write the header before the payload', () => {
+    const value = writeFrame(FrameType.Serialized, 'json', payload)
+    expect(value.slice(0, 4)).toEqual(
+      Buffer.from([envelopeMagic, envelopeVersion, FrameType.Serialized, 4])
+    )
+    expect(value.slice(4).toString()).toBe('json{"a":1}')
+  })
+
+  it('should read back the written frame', () => {
+    const value = writeFrame(FrameType.Serialized, 'msgpack', payload)
+    expect(readFrame(value)).toEqual({ type: FrameType.Serialized, meta: 'msgpack', payload })
+  })
+
+  it('should tell apart the values written before the envelope existed', () => {
+    expect(isEnvelope(writeFrame(FrameType.Serialized, 'json', payload))).toBe(true)
+    expect(isEnvelope(payload)).toBe(false)
+    expect(isEnvelope(Buffer.from([envelopeMagic]))).toBe(false)
+  })
+
+  it('should throw an error for a meta longer than the header supports', () => {
+    expect(() => writeFrame(FrameType.Serialized, 'x'.repeat(256), payload)).toThrowError(
+      RangeError
+    )
+  })
+
+  it('should throw an error when reading a value without envelope', () => {
+    expect(() => readFrame(payload)).toThrowError(TypeError)
+  })
+
+  it('should throw an error when reading an unknown envelope version', () => {
+    const value = writeFrame(FrameType.Serialized, 'json', payload)
+    value[1] = envelopeVersion + 1
+    expect(() => readFrame(value)).toThrowError(TypeError)
+  })
+
+  it('should throw an error when reading a truncated header', () => {
+    const value = writeFrame(FrameType.Serialized, 'json', payload)
+    expect(() => readFrame(value.slice(0, 6))).toThrowError(TypeError)
+  })
+})
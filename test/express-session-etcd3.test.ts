@@ -1,13 +1,36 @@
 import { DeleteBuilder, MultiRangeBuilder, SingleRangeBuilder } from 'etcd3/lib/src'
 import Etcd3Store, {
   Etcd3StoreOptions,
+  SessionEntry,
   defaultOptions,
   oneDay,
   maxTTL
 } from '../src/express-session-etcd3'
-import { Etcd3 } from 'etcd3'
+import { Etcd3, Lease } from 'etcd3'
 import { PutBuilder } from 'etcd3/lib/src/builder'
 import { anotherPrefix, createTestClientAndKeys, sessionData, tearDownTestClient } from './utils'
+import { msgpackSerializer, Serializer } from '../src/serializer'
+import { FrameType, readFrame, writeFrame } from '../src/envelope'
+import {
+  CircuitOpenError,
+  CompactedRevisionError,
+  ConflictError,
+  DecryptionError,
+  IdleTimeoutError,
+  InvalidSessionError,
+  SessionLockError
+} from '../src/errors'
+import { QuarantineEvent } from '../src/validation'
+import { CircuitEvent, FallbackStore } from '../src/resilience'
+import { GRPCConnectFailedError } from 'etcd3/lib/src/errors'
+import { revisionField } from '../src/concurrency'
+import { StoreMetrics } from '../src/metrics'
+import { randomBytes } from 'crypto'
+import { PassThrough } from 'stream'
+import { ImportOptions } from '../src/ndjson'
+import { createdAtField } from '../src/lifetime'
+import { updatedAtField } from '../src/history'
+import { forEachAsync } from '../src/iteration'
 
 describe('Etcd3Store test suit', () => {
   let client: Etcd3
@@ -25,19 +48,1558 @@ describe('Etcd3Store test suit', () => {
     }
   }
 
+  async function collect(iterator: AsyncIterableIterator<SessionEntry>) {
+    const entries: SessionEntry[] = []
+    await forEachAsync(iterator, async entry => {
+      entries.push(entry)
+    })
+    return entries
+  }
+
   afterEach(() => tearDownTestClient(client))
 
-  it('should work with a personal config', () => {
-    const subject = new Etcd3Store({ hosts: 'myhost' }, {} as any)
-    expect(subject['key']()).toBeTruthy()
+  it('should work with a personal config', () => {
+    const subject = new Etcd3Store({ hosts: 'myhost' }, {} as any)
+    expect(subject['key']()).toBeTruthy()
+  })
+
+  it('should work with a default client instance', () => {
+    const options = { hosts: 'myhost' }
+    const subject = new Etcd3Store(options)
+    expect(subject['client']).toBeTruthy()
+    expect(subject['client']['pool']['options']).toBe(options)
+    tearDownTestClient(subject['client'])
+  })
+
+  describe('when encrypting the session data', () => {
+    const oldKey = { id: 'old', key: randomBytes(32) }
+    const newKey = { id: 'new', key: randomBytes(32) }
+
+    it('should not write the session in plain text', async done => {
+      const { subject, client } = await createSubject({ encryption: { keys: [newKey] } })
+      jest.spyOn(subject, 'getTTL' as any).mockReturnValue(100)
+      subject.set(newSid, sessionData, async err => {
+        expect(err).toBeNull()
+        const value = await client.get(defaultOptions.prefix + '/' + newSid).buffer()
+        expect(readFrame(value)).toMatchObject({ type: FrameType.Encrypted, meta: 'new' })
+        expect(value.indexOf(sessionData.cookie.path)).toBe(-1)
+        done()
+      })
+    })
+
+    it('should not read the value copied to another session', async () => {
+      const { subject, client } = await createSubject({ encryption: { keys: [newKey] } })
+      jest.spyOn(subject, 'getTTL' as any).mockReturnValue(100)
+      await subject.promises.set(newSid, sessionData)
+      const value = await client.get(defaultOptions.prefix + '/' + newSid).buffer()
+      await client.put(defaultOptions.prefix + '/' + sessionData.sid).value(value)
+      await expect(subject.promises.get(sessionData.sid)).rejects.toBeInstanceOf(DecryptionError)
+    })
+
+    it('should read the sessions written with an older key', async done => {
+      const { subject } = await createSubject({ encryption: { keys: [oldKey] } })
+      jest.spyOn(subject, 'getTTL' as any).mockReturnValue(100)
+      subject.set(newSid, sessionData, () => {
+        const rotated = new Etcd3Store({ encryption: { keys: [newKey, oldKey] } } as any, client)
+        rotated.get(newSid, (err, data) => {
+          expect(err).toBeNull()
+          expect(data).toEqual(sessionData)
+          done()
+        })
+      })
+    })
+
+    it('should return a DecryptionError for a tampered session', async done => {
+      const { subject, client } = await createSubject({ encryption: { keys: [newKey] } })
+      const key = defaultOptions.prefix + '/' + newSid
+      jest.spyOn(subject, 'getTTL' as any).mockReturnValue(100)
+      subject.set(newSid, sessionData, async () => {
+        const value = await client.get(key).buffer()
+        value[value.length - 1] ^= 1
+        await client.put(key).value(value)
+        subject.get(newSid, (err, data) => {
+          expect(err).toBeInstanceOf(DecryptionError)
+          expect(data).toBeNull()
+          done()
+        })
+      })
+    })
+
+    it('should return a DecryptionError for a session without encryption', async done => {
+      const { subject } = await createSubject({ encryption: { keys: [newKey] } })
+      subject.get(sessionData.sid, (err, data) => {
+        expect(err).toBeInstanceOf(DecryptionError)
+        expect(data).toBeNull()
+        done()
+      })
+    })
+
+    it('should read a session without encryption if it is allowed', async done => {
+      const { subject } = await createSubject({
+        encryption: { keys: [newKey], allowUnencrypted: true }
+      })
+      subject.get(sessionData.sid, (err, data) => {
+        expect(err).toBeNull()
+        expect(data).toEqual(sessionData)
+        done()
+      })
+    })
+  })
+
+  describe('when compressing the session data', () => {
+    const bigSession = { ...sessionData, cart: new Array(200).fill({ item: 'book', qty: 1 }) }
+
+    it('should compress the sessions bigger than the threshold', async done => {
+      const { subject, client } = await createSubject({ compression: { threshold: 100 } })
+      jest.spyOn(subject, 'getTTL' as any).mockReturnValue(100)
+      subject.set(newSid, bigSession, async err => {
+        expect(err).toBeNull()
+        const value = await client.get(defaultOptions.prefix + '/' + newSid).buffer()
+        expect(readFrame(value).type).toBe(FrameType.Compressed)
+        subject.get(newSid, (err, data) => {
+          expect(err).toBeNull()
+          expect(data).toEqual(bigSession)
+          done()
+        })
+      })
+    })
+
+    it('should not compress the sessions smaller than the threshold', async done => {
+      const { subject, client } = await createSubject({ compression: true })
+      jest.spyOn(subject, 'getTTL' as any).mockReturnValue(100)
+      subject.set(newSid, sessionData, async err => {
+        expect(err).toBeNull()
+        const value = await client.get(defaultOptions.prefix + '/' + newSid).buffer()
+        expect(readFrame(value).type).toBe(FrameType.Serialized)
+        done()
+      })
+    })
+
+    it('should compress the sessions before encrypting them', async done => {
+      const { subject } = await createSubject({
+        compression: { threshold: 0 },
+        encryption: { keys: [{ id: 'key', key: randomBytes(32) }] }
+      })
+      jest.spyOn(subject, 'getTTL' as any).mockReturnValue(100)
+      subject.set(newSid, bigSession, () => {
+        subject.get(newSid, (err, data) => {
+          expect(err).toBeNull()
+          expect(data).toEqual(bigSession)
+          done()
+        })
+      })
+    })
+
+    it('should read the sessions written before enabling it', async done => {
+      const { subject } = await createSubject({ compression: { threshold: 0 } })
+      subject.get(sessionData.sid, (err, data) => {
+        expect(err).toBeNull()
+        expect(data).toEqual(sessionData)
+        done()
+      })
+    })
+  })
+
+  describe('when caching the session data', () => {
+    async function createCachedSubject() {
+      const created = await createSubject({ cache: { max: 10, ttl: 60 } })
+      await created.subject['watcher']
+      return created
+    }
+
+    afterEach(() => jest.restoreAllMocks())
+
+    it('should get the session again from the cache', async done => {
+      const { subject } = await createCachedSubject()
+      const spy = jest.spyOn(SingleRangeBuilder.prototype, 'exec')
+      subject.get(sessionData.sid, () => {
+        subject.get(sessionData.sid, (err, data) => {
+          expect(err).toBeNull()
+          expect(data).toEqual(sessionData)
+          expect(spy).toHaveBeenCalledTimes(1)
+          expect(subject.getCacheStats()).toEqual({ hits: 1, misses: 1, size: 1 })
+          subject.close().then(done)
+        })
+      })
+    })
+
+    it('should evict the session changed by another instance', async done => {
+      const { subject, client } = await createCachedSubject()
+      const changed = { ...sessionData, changed: true }
+      subject.get(sessionData.sid, async () => {
+        await client
+          .put(defaultOptions.prefix + '/' + sessionData.sid)
+          .value(JSON.stringify(changed))
+        setTimeout(() => {
+          subject.get(sessionData.sid, (err, data) => {
+            expect(data).toEqual(changed)
+            subject.close().then(done)
+          })
+        }, 100)
+      })
+    })
+
+    it('should evict the session deleted by another instance', async done => {
+      const { subject, client } = await createCachedSubject()
+      subject.get(sessionData.sid, async () => {
+        await client.delete().key(defaultOptions.prefix + '/' + sessionData.sid)
+        setTimeout(() => {
+          subject.get(sessionData.sid, (err, data) => {
+            expect(data).toBeNull()
+            subject.close().then(done)
+          })
+        }, 100)
+      })
+    })
+
+    it('should evict the session when its lease expires', async done => {
+      const { subject } = await createCachedSubject()
+      jest.spyOn(subject, 'getTTL' as any).mockReturnValue(1)
+      subject.set(newSid, sessionData, () => {
+        subject.get(newSid, () => {
+          setTimeout(() => {
+            subject.get(newSid, (err, data) => {
+              expect(data).toBeNull()
+              subject.close().then(done)
+            })
+          }, 1000 + ETCD_CLEAR_TIME)
+        })
+      })
+    })
+
+    it('should not use the cache after closing the store', async done => {
+      const { subject } = await createCachedSubject()
+      subject.get(sessionData.sid, async () => {
+        await subject.close()
+        subject.get(sessionData.sid, () => {
+          expect(subject.getCacheStats()).toEqual({ hits: 0, misses: 2, size: 0 })
+          done()
+        })
+      })
+    })
+
+    it('should not have cache stats if it is not enabled', async () => {
+      const { subject } = await createSubject()
+      expect(subject.getCacheStats()).toBeUndefined()
+    })
+  })
+
+  describe('when emitting the session events', () => {
+    async function createWatchedSubject() {
+      const created = await createSubject({ events: true })
+      await created.subject['watcher']
+      return created
+    }
+
+    it('should emit created and updated events with the session', async done => {
+      const { subject } = await createWatchedSubject()
+      const updated = { ...sessionData, updated: true }
+      jest.spyOn(subject, 'getTTL' as any).mockReturnValue(100)
+      subject.on('created', event => {
+        expect(event).toEqual({ sid: newSid, session: sessionData })
+        subject.set(newSid, updated, () => {
+          /**/
+        })
+      })
+      subject.on('updated', event => {
+        expect(event).toEqual({ sid: newSid, session: updated })
+        subject.close().then(done)
+      })
+      subject.set(newSid, sessionData, () => {
+        /**/
+      })
+    })
+
+    it('should emit a destroyed event with the last known session', async done => {
+      const { subject } = await createWatchedSubject()
+      jest.spyOn(subject, 'getTTL' as any).mockReturnValue(100)
+      subject.on('expired', () => done.fail('should not expire'))
+      subject.on('destroyed', event => {
+        expect(event).toEqual({ sid: newSid, session: sessionData })
+        subject.close().then(done)
+      })
+      subject.set(newSid, sessionData, () => subject.destroy(newSid, () => undefined))
+    })
+
+    it('should emit an expired event when the lease expires', async done => {
+      const { subject } = await createWatchedSubject()
+      jest.spyOn(subject, 'getTTL' as any).mockReturnValue(1)
+      subject.on('destroyed', () => done.fail('should not be destroyed'))
+      subject.on('expired', event => {
+        expect(event).toEqual({ sid: newSid, session: sessionData })
+        subject.close().then(done)
+      })
+      subject.set(newSid, sessionData, () => undefined)
+    })
+
+    it('should emit the events without session if it can not be decoded', async done => {
+      const { subject, client } = await createWatchedSubject()
+      subject.on('created', event => {
+        expect(event).toEqual({ sid: 'badSid', session: undefined })
+        subject.close().then(done)
+      })
+      client.put(defaultOptions.prefix + '/badSid').value('typo{b:1}')
+    })
+  })
+
+  describe('when indexing the sessions by user', () => {
+    const userSession = { ...sessionData, passport: { user: 'user/1' } }
+    const indexKey = (sid: string) => defaultOptions.prefix + ':users/user%2F1/' + sid
+
+    async function createIndexedSubject() {
+      const created = await createSubject({ userField: 'passport.user' })
+      jest.spyOn(created.subject, 'getTTL' as any).mockReturnValue(100)
+      await Promise.all(
+        ['sid1', 'sid2'].map(
+          sid => new Promise(resolve => created.subject.set(sid, userSession, resolve))
+        )
+      )
+      return created
+    }
+
+    it('should write the index entry with the same lease of the session', async () => {
+      const { client } = await createIndexedSubject()
+      const [session] = (await client.get(defaultOptions.prefix + '/sid1').exec()).kvs
+      const [entry] = (await client.get(indexKey('sid1')).exec()).kvs
+      expect(entry.lease).toBe(session.lease)
+    })
+
+    it('should get all the sessions of the user', async done => {
+      const { subject } = await createIndexedSubject()
+      subject.sessionsForUser('user/1', (err, sessions) => {
+        expect(err).toBeNull()
+        expect(sessions).toEqual({ sid1: userSession, sid2: userSession })
+        done()
+      })
+    })
+
+    it('should move the index entry when the user of the session changes', async done => {
+      const { subject, client } = await createIndexedSubject()
+      const otherSession = { ...sessionData, passport: { user: 'other' } }
+      subject.set('sid1', otherSession, async () => {
+        expect(await client.get(indexKey('sid1'))).toBeNull()
+        subject.sessionsForUser('other', (err, sessions) => {
+          expect(sessions).toEqual({ sid1: otherSession })
+          done()
+        })
+      })
+    })
+
+    it('should remove the index entry when the session is destroyed', async done => {
+      const { subject, client } = await createIndexedSubject()
+      subject.destroy('sid1', async err => {
+        expect(err).toBeNull()
+        expect(await client.get(indexKey('sid1'))).toBeNull()
+        expect(await client.get(indexKey('sid2'))).not.toBeNull()
+        done()
+      })
+    })
+
+    it('should destroy all the sessions of the user', async done => {
+      const { subject, client } = await createIndexedSubject()
+      subject.destroyUserSessions('user/1', async err => {
+        expect(err).toBeNull()
+        const count = await client
+          .getAll()
+          .prefix(defaultOptions.prefix)
+          .count()
+        expect(count).toBe(1)
+        expect(await client.get(defaultOptions.prefix + '/' + sessionData.sid)).not.toBeNull()
+        done()
+      })
+    })
+
+    it('should return an error if the userField option is not set', async done => {
+      const { subject } = await createSubject()
+      subject.sessionsForUser('user/1', (err, sessions) => {
+        expect(err).toBeInstanceOf(TypeError)
+        expect(sessions).toBeNull()
+        subject.destroyUserSessions('user/1', err => {
+          expect(err).toBeInstanceOf(TypeError)
+          done()
+        })
+      })
+    })
+  })
+
+  describe('when resolving the prefix per session', () => {
+    const tenantOf = (sid: string) => 'sess/' + sid.split('.')[0]
+
+    async function createTenantSubject(options: Partial<Etcd3StoreOptions> = {}) {
+      const created = await createSubject({ prefix: tenantOf, ...options })
+      jest.spyOn(created.subject, 'getTTL' as any).mockReturnValue(100)
+      await Promise.all(
+        ['acme.1', 'acme.2', 'globex.1'].map(sid => created.subject.promises.set(sid, sessionData))
+      )
+      return created
+    }
+
+    it('should write the sessions under their resolved prefix', async () => {
+      const { subject, client } = await createTenantSubject()
+      expect(await client.get('sess/acme/acme.1')).not.toBeNull()
+      expect(await client.get('sess/globex/globex.1')).not.toBeNull()
+      expect(await subject.promises.get('acme.1')).toEqual(sessionData)
+    })
+
+    it('should get and count the sessions of all the prefixes', async () => {
+      const { subject } = await createTenantSubject()
+      expect(Object.keys(await subject.promises.all()).sort()).toEqual([
+        'acme.1',
+        'acme.2',
+        'globex.1'
+      ])
+      expect(await subject.promises.length()).toBe(3)
+    })
+
+    it('should get, count and clear the sessions of a single prefix', async () => {
+      const { subject } = await createTenantSubject()
+      const acme = subject.scope('sess/acme')
+      expect(Object.keys(await acme.promises.all()).sort()).toEqual(['acme.1', 'acme.2'])
+      expect(await acme.promises.length()).toBe(2)
+      await acme.promises.clear()
+      expect(await subject.promises.length()).toBe(1)
+    })
+
+    it('should clear the sessions of all the prefixes', async () => {
+      const { subject, client } = await createTenantSubject()
+      await subject.promises.clear()
+      expect(await subject.promises.length()).toBe(0)
+      expect(await client.get(defaultOptions.prefix + '/' + sessionData.sid)).toBeNull()
+    })
+
+    it('should keep the user index entries under the prefix of the session', async () => {
+      const { subject, client } = await createTenantSubject({ userField: 'userId' })
+      await subject.promises.set('acme.3', { ...sessionData, userId: 'user' })
+      expect(await client.get('sess/acme:users/user/acme.3')).not.toBeNull()
+      const acme = subject.scope('sess/acme')
+      expect(Object.keys(await acme.promises.sessionsForUser('user'))).toEqual(['acme.3'])
+      await expect(subject.promises.sessionsForUser('user')).rejects.toBeInstanceOf(TypeError)
+    })
+
+    it('should not write a session under a prefix overlapping the other ones', async () => {
+      const { subject } = await createTenantSubject()
+      await expect(subject.promises.set('acme/eu.1', sessionData)).rejects.toBeInstanceOf(
+        RangeError
+      )
+      await expect(subject.promises.set('acme:users.1', sessionData)).rejects.toBeInstanceOf(
+        RangeError
+      )
+      expect(() => subject.scope('other')).toThrowError(RangeError)
+    })
+
+    it('should throw an error for a root prefix not ending with a slash', () => {
+      expect(
+        () => new Etcd3Store({ hosts: 'myhost', prefix: tenantOf, rootPrefix: 'sess' }, {} as any)
+      ).toThrowError(TypeError)
+    })
+
+    it('should throw an error when scoping a static prefix', async () => {
+      const { subject } = await createSubject()
+      expect(() => subject.scope('sess/acme')).toThrowError(TypeError)
+    })
+  })
+
+  describe('when controlling the concurrency', () => {
+    const key = defaultOptions.prefix + '/' + sessionData.sid
+
+    async function createConcurrentSubject(options: Partial<Etcd3StoreOptions> = {}) {
+      const created = await createSubject({ concurrency: true, ...options })
+      jest.spyOn(created.subject, 'getTTL' as any).mockReturnValue(100)
+      return created
+    }
+
+    function read(subject: Etcd3Store) {
+      return subject.promises.get(sessionData.sid) as Promise<Express.SessionData>
+    }
+
+    it('should record the revision of the session read', async () => {
+      const { subject, client } = await createConcurrentSubject()
+      const [kv] = (await client.get(key).exec()).kvs
+      const session = await read(subject)
+      expect(session[revisionField]).toBe(kv.mod_revision)
+    })
+
+    it('should write the session without its revision and record the new one', async () => {
+      const { subject, client } = await createConcurrentSubject()
+      const session = await read(subject)
+      await subject.promises.set(sessionData.sid, session)
+      const [kv] = (await client.get(key).exec()).kvs
+      expect(subject['decode'](kv.value, key)).toEqual(sessionData)
+      expect(session[revisionField]).toBe(kv.mod_revision)
+    })
+
+    it('should fail writing a session changed since it was read', async () => {
+      const { subject } = await createConcurrentSubject()
+      const [first, second] = await Promise.all([read(subject), read(subject)])
+      await subject.promises.set(sessionData.sid, { ...first, flash: 'first' })
+      await expect(
+        subject.promises.set(sessionData.sid, { ...second, flash: 'second' })
+      ).rejects.toBeInstanceOf(ConflictError)
+      expect(await read(subject)).toMatchObject({ flash: 'first' })
+    })
+
+    it('should revoke the lease of the conflicting write', async () => {
+      const { subject } = await createConcurrentSubject()
+      const [first, second] = await Promise.all([read(subject), read(subject)])
+      await subject.promises.set(sessionData.sid, first)
+      const revoke = jest.spyOn(Lease.prototype, 'revoke')
+      await expect(subject.promises.set(sessionData.sid, second)).rejects.toBeInstanceOf(
+        ConflictError
+      )
+      expect(revoke).toHaveBeenCalledTimes(1)
+      revoke.mockRestore()
+    })
+
+    it('should write the session merged with the one changed since it was read', async () => {
+      const merge = jest.fn((ours, theirs) => ({ ...ours, cart: [...theirs.cart, ...ours.cart] }))
+      const { subject } = await createConcurrentSubject({ concurrency: { merge } })
+      const [first, second] = await Promise.all([read(subject), read(subject)])
+      await subject.promises.set(sessionData.sid, { ...first, cart: [1] })
+      await subject.promises.set(sessionData.sid, { ...second, cart: [2] })
+      expect(merge).toHaveBeenCalledWith(
+        { ...sessionData, cart: [2] },
+        { ...sessionData, cart: [1] },
+        sessionData.sid
+      )
+      expect(await read(subject)).toMatchObject({ cart: [1, 2] })
+    })
+
+    it('should merge with null when the session was destroyed since it was read', async () => {
+      const merge = jest.fn(ours => ours)
+      const { subject } = await createConcurrentSubject({ concurrency: { merge } })
+      const session = await read(subject)
+      await subject.promises.destroy(sessionData.sid)
+      await subject.promises.set(sessionData.sid, session)
+      expect(merge).toHaveBeenCalledWith(sessionData, null, sessionData.sid)
+      expect(await read(subject)).toMatchObject(sessionData)
+    })
+
+    it('should fail without merging when the max merges is zero', async () => {
+      const merge = jest.fn(ours => ours)
+      const { subject, client } = await createConcurrentSubject({
+        concurrency: { merge, maxMerges: 0 }
+      })
+      const session = await read(subject)
+      await client.put(key).value(JSON.stringify(sessionData))
+      await expect(subject.promises.set(sessionData.sid, session)).rejects.toBeInstanceOf(
+        ConflictError
+      )
+      expect(merge).not.toHaveBeenCalled()
+    })
+
+    it('should write a session without revision unconditionally', async () => {
+      const { subject } = await createConcurrentSubject()
+      await subject.promises.set(newSid, { ...sessionData })
+      expect(await subject.promises.get(newSid)).toMatchObject(sessionData)
+    })
+  })
+
+  describe('when recording the metrics', () => {
+    function createMetrics(): StoreMetrics {
+      return { operation: jest.fn(), payload: jest.fn(), leaseGranted: jest.fn() }
+    }
+
+    it('should record the duration of the operations', async () => {
+      const metrics = createMetrics()
+      const { subject } = await createSubject({ metrics })
+      jest.spyOn(subject, 'getTTL' as any).mockReturnValue(100)
+      await subject.promises.set(newSid, sessionData)
+      await subject.promises.get(newSid)
+      await subject.promises.touch(newSid, sessionData)
+      await subject.promises.destroy(newSid)
+      const names = (metrics.operation as jest.Mock).mock.calls.map(call => call[0])
+      expect(names).toEqual(['set', 'get', 'touch', 'destroy'])
+      expect(metrics.operation).toHaveBeenCalledWith('get', expect.any(Number), undefined)
+    })
+
+    it('should record the errors of the operations', async () => {
+      const metrics = createMetrics()
+      const { subject, client } = await createSubject({ metrics })
+      const error = new Error()
+      jest.spyOn(client, 'get').mockImplementation(() => {
+        throw error
+      })
+      await expect(subject.promises.get(sessionData.sid)).rejects.toBe(error)
+      expect(metrics.operation).toHaveBeenCalledWith('get', expect.any(Number), error)
+    })
+
+    it('should record the payload sizes and the leases granted', async () => {
+      const metrics = createMetrics()
+      const { subject } = await createSubject({ metrics })
+      jest.spyOn(subject, 'getTTL' as any).mockReturnValue(100)
+      await subject.promises.set(newSid, sessionData)
+      await subject.promises.get(newSid)
+      const size = subject['encode'](sessionData, defaultOptions.prefix + '/' + newSid).length
+      expect(metrics.payload).toHaveBeenCalledWith('set', size)
+      expect(metrics.payload).toHaveBeenCalledWith('get', size)
+      expect(metrics.leaseGranted).toHaveBeenCalledTimes(1)
+    })
+
+    it('should not fail the operations when the metrics hook throws', async () => {
+      const metrics = createMetrics()
+      ;(metrics.operation as jest.Mock).mockImplementation(() => {
+        throw new Error()
+      })
+      const { subject } = await createSubject({ metrics })
+      expect(await subject.promises.get(sessionData.sid)).toEqual(sessionData)
+    })
+  })
+
+  describe('when handling etcd outages', () => {
+    function createFallback(): FallbackStore {
+      const sessions: { [sid: string]: Express.SessionData } = {}
+      return {
+        get: jest.fn((sid, cb) => cb(null, sessions[sid] || null)),
+        set: jest.fn((sid, session, cb) => {
+          sessions[sid] = session
+          cb()
+        }),
+        destroy: jest.fn((sid, cb) => {
+          delete sessions[sid]
+          cb()
+        })
+      }
+    }
+
+    function failGet(client: Etcd3, error: Error = new GRPCConnectFailedError('unavailable')) {
+      const spy = jest.spyOn(client, 'get')
+      spy.mockImplementation(() => {
+        throw error
+      })
+      return spy
+    }
+
+    it('should retry the operations failed with a transient error', async () => {
+      const { subject, client } = await createSubject({
+        resilience: { retry: { retries: 2, minDelay: 1 } }
+      })
+      const unavailable = () => {
+        throw new GRPCConnectFailedError('unavailable')
+      }
+      const get = jest
+        .spyOn(client, 'get')
+        .mockImplementationOnce(unavailable)
+        .mockImplementationOnce(unavailable)
+      expect(await subject.promises.get(sessionData.sid)).toEqual(sessionData)
+      expect(get).toHaveBeenCalledTimes(3)
+    })
+
+    it('should not retry the operations failed with any other error', async () => {
+      const { subject, client } = await createSubject({ resilience: { retry: true } })
+      const error = new Error()
+      const get = failGet(client, error)
+      await expect(subject.promises.get(sessionData.sid)).rejects.toBe(error)
+      expect(get).toHaveBeenCalledTimes(1)
+    })
+
+    it('should fail fast once the circuit is open', async () => {
+      const { subject, client } = await createSubject({
+        resilience: { circuitBreaker: { failureThreshold: 2 } }
+      })
+      const events: CircuitEvent[] = []
+      subject.on('circuit', event => events.push(event))
+      const get = failGet(client)
+      await expect(subject.promises.get(sessionData.sid)).rejects.toBeInstanceOf(
+        GRPCConnectFailedError
+      )
+      await expect(subject.promises.get(sessionData.sid)).rejects.toBeInstanceOf(
+        GRPCConnectFailedError
+      )
+      await expect(subject.promises.get(sessionData.sid)).rejects.toBeInstanceOf(CircuitOpenError)
+      expect(get).toHaveBeenCalledTimes(2)
+      expect(events).toEqual([{ from: 'closed', to: 'open', error: expect.any(Error) }])
+    })
+
+    it('should close the circuit once a trial operation succeeds', async () => {
+      const { subject, client } = await createSubject({
+        resilience: { circuitBreaker: { failureThreshold: 1, resetTimeout: 0 } }
+      })
+      const events: CircuitEvent[] = []
+      subject.on('circuit', event => events.push(event))
+      const get = failGet(client)
+      await expect(subject.promises.get(sessionData.sid)).rejects.toBeDefined()
+      get.mockRestore()
+      expect(await subject.promises.get(sessionData.sid)).toEqual(sessionData)
+      expect(events.map(event => event.to)).toEqual(['open', 'half-open', 'closed'])
+    })
+
+    it('should serve the sessions from the fallback store while the circuit is open', async () => {
+      const fallback = createFallback()
+      const { subject, client } = await createSubject({
+        resilience: { circuitBreaker: { failureThreshold: 1 }, fallback }
+      })
+      failGet(client)
+      expect(await subject.promises.get(sessionData.sid)).toBeNull()
+      await subject.promises.set(newSid, sessionData)
+      expect(await subject.promises.get(newSid)).toEqual(sessionData)
+      await subject.promises.touch(newSid, sessionData)
+      await subject.promises.destroy(newSid)
+      expect(fallback.get).toHaveBeenCalledTimes(2)
+      expect(fallback.set).toHaveBeenCalledWith(newSid, sessionData, expect.any(Function))
+      expect(fallback.destroy).toHaveBeenCalledWith(newSid, expect.any(Function))
+    })
+  })
+
+  describe('when checking the health', () => {
+    it('should be healthy when etcd is usable', async () => {
+      const { subject } = await createSubject()
+      const status = await subject.healthCheck()
+      expect(status.healthy).toBe(true)
+      expect(status.latency).toEqual(expect.any(Number))
+    })
+
+    it('should leave no probe key at etcd', async () => {
+      const { subject, client } = await createSubject()
+      await subject.healthCheck()
+      expect(await client.get(defaultOptions.prefix + '/:health/probe').string()).toBeNull()
+      expect(await subject.promises.length()).toBe(1)
+    })
+
+    it('should probe under the root prefix of the resolved prefixes', async () => {
+      const { subject } = await createSubject({ prefix: () => 'sess/tenant' })
+      const spy = jest.spyOn(DeleteBuilder.prototype, 'key')
+      expect((await subject.healthCheck()).healthy).toBe(true)
+      expect(spy).toHaveBeenCalledWith('sess/:health/probe')
+      spy.mockRestore()
+    })
+
+    it('should not be healthy when etcd is unreachable', async () => {
+      const { subject, client } = await createSubject()
+      jest
+        .spyOn(client.maintenance, 'status')
+        .mockImplementation(() => Promise.reject(new Error('unavailable')))
+      const status = await subject.healthCheck()
+      expect(status.healthy).toBe(false)
+      expect(status.checks.connectivity).toEqual({ ok: false, error: 'unavailable' })
+    })
+  })
+
+  describe('when getting the time to live of a session', () => {
+    it('should give the remaining ttl of its lease', async () => {
+      const { subject } = await createSubject()
+      jest.spyOn(subject, 'getTTL' as any).mockReturnValue(100)
+      await subject.promises.set(newSid, sessionData)
+      const ttl = await subject.timeToLive(newSid)
+      expect(ttl).toBeGreaterThan(90)
+      expect(ttl).toBeLessThanOrEqual(100)
+    })
+
+    it('should give Infinity without lease and null without session', async () => {
+      const { subject } = await createSubject()
+      expect(await subject.timeToLive(sessionData.sid)).toBe(Infinity)
+      expect(await subject.timeToLive('nope')).toBeNull()
+    })
+  })
+
+  describe('when exporting and importing the sessions', () => {
+    function exportAll(subject: Etcd3Store) {
+      const stream = new PassThrough()
+      const chunks: string[] = []
+      stream.on('data', chunk => chunks.push(chunk.toString()))
+      return subject.exportSessions(stream).then(count => {
+        const lines = chunks.join('').split('\n')
+        return { count, records: lines.slice(0, -1).map(line => JSON.parse(line)) }
+      })
+    }
+
+    function importAll(subject: Etcd3Store, lines: any[], options?: ImportOptions) {
+      const stream = new PassThrough()
+      stream.end(lines.map(line => JSON.stringify(line) + '\n').join(''))
+      return subject.importSessions(stream, options)
+    }
+
+    it('should export the sessions with their remaining ttl', async () => {
+      const { subject } = await createSubject()
+      jest.spyOn(subject, 'getTTL' as any).mockReturnValue(100)
+      await subject.promises.set(newSid, sessionData)
+      const { count, records } = await exportAll(subject)
+      expect(count).toBe(2)
+      expect(records).toEqual([
+        { sid: newSid, session: sessionData, ttl: expect.any(Number) },
+        { sid: sessionData.sid, session: sessionData, ttl: null }
+      ])
+      expect(records[0].ttl).toBeGreaterThan(90)
+    })
+
+    it('should import the sessions bound to leases with their ttl', async () => {
+      const { subject } = await createSubject()
+      const result = await importAll(subject, [
+        { sid: newSid, session: { ...sessionData, imported: true }, ttl: 50 },
+        { sid: 'expired', session: sessionData, ttl: 0 }
+      ])
+      expect(result).toEqual({ imported: 1, existing: 0, expired: 1 })
+      expect(await subject.promises.get(newSid)).toEqual({ ...sessionData, imported: true })
+      expect(await subject.timeToLive(newSid)).toBeLessThanOrEqual(50)
+      expect(await subject.promises.get('expired')).toBeNull()
+    })
+
+    it('should compute the ttl of the records without it', async () => {
+      const { subject } = await createSubject()
+      jest.spyOn(subject, 'getTTL' as any).mockReturnValue(30)
+      await importAll(subject, [{ sid: newSid, session: sessionData }])
+      expect(await subject.timeToLive(newSid)).toBeLessThanOrEqual(30)
+    })
+
+    it('should overwrite the stored sessions by default', async () => {
+      const { subject } = await createSubject()
+      const session = { ...sessionData, imported: true }
+      const result = await importAll(subject, [{ sid: sessionData.sid, session, ttl: 50 }])
+      expect(result.imported).toBe(1)
+      expect(await subject.promises.get(sessionData.sid)).toEqual(session)
+    })
+
+    it('should keep the stored sessions when merging', async () => {
+      const { subject } = await createSubject()
+      const session = { ...sessionData, imported: true }
+      const result = await importAll(
+        subject,
+        [
+          { sid: sessionData.sid, session, ttl: 50 },
+          { sid: newSid, session, ttl: 50 }
+        ],
+        { mode: 'merge' }
+      )
+      expect(result).toEqual({ imported: 1, existing: 1, expired: 0 })
+      expect(await subject.promises.get(sessionData.sid)).toEqual(sessionData)
+      expect(await subject.promises.get(newSid)).toEqual(session)
+    })
+
+    it('should move the sessions between stores', async () => {
+      const { subject, client } = await createSubject()
+      const stream = new PassThrough()
+      await subject.exportSessions(stream)
+      stream.end()
+      const target = new Etcd3Store({ prefix: 'target' } as any, client)
+      expect(await target.importSessions(stream)).toEqual({ imported: 1, existing: 0, expired: 0 })
+      expect(await target.promises.get(sessionData.sid)).toEqual(sessionData)
+    })
+  })
+
+  describe('when validating the sessions', () => {
+    const badKey = defaultOptions.prefix + '/badSid'
+    const quarantineKey = defaultOptions.prefix + ':quarantine/badSid'
+
+    function quarantined(subject: Etcd3Store) {
+      return new Promise<QuarantineEvent>(resolve => subject.once('quarantined', resolve))
+    }
+
+    it('should treat the unparseable sessions as missing and quarantine them', async () => {
+      const { subject, client } = await createSubject({ validation: true })
+      await client.put(badKey).value('typo{b:1}')
+      const quarantining = quarantined(subject)
+      expect(await subject.promises.get('badSid')).toBeNull()
+      const event = await quarantining
+      expect(event).toEqual({ sid: 'badSid', key: quarantineKey, error: expect.any(Error) })
+      expect(event.error).toBeInstanceOf(InvalidSessionError)
+      expect(await client.get(quarantineKey).string()).toBe('typo{b:1}')
+      expect(await client.get(badKey).string()).toBeNull()
+    })
+
+    it('should keep the quarantined sessions until the end of the retention', async () => {
+      const { subject, client } = await createSubject({ validation: { retention: 60 } })
+      await client.put(badKey).value('typo{b:1}')
+      const quarantining = quarantined(subject)
+      await subject.promises.get('badSid')
+      await quarantining
+      const [kv] = (await client.get(quarantineKey).exec()).kvs
+      const lease = await client.leaseClient.leaseTimeToLive({ ID: kv.lease })
+      expect(Number(lease.grantedTTL)).toBe(60)
+    })
+
+    it('should treat the sessions without cookie as missing', async () => {
+      const { subject, client } = await createSubject({ validation: true })
+      await client.put(badKey).value(JSON.stringify({ user: 1 }))
+      const quarantining = quarantined(subject)
+      expect(await subject.promises.get('badSid')).toBeNull()
+      expect((await quarantining).error.message).toBe('The session has no `cookie` object.')
+    })
+
+    it('should check the sessions with the validator', async () => {
+      const validator = jest.fn(() => false)
+      const { subject } = await createSubject({ validation: { validator } })
+      const quarantining = quarantined(subject)
+      expect(await subject.promises.get(sessionData.sid)).toBeNull()
+      expect(validator).toHaveBeenCalledWith(sessionData, sessionData.sid)
+      expect((await quarantining).sid).toBe(sessionData.sid)
+    })
+
+    it('should quarantine the values with a broken envelope', async () => {
+      const { subject, client } = await createSubject({ validation: true })
+      const value = Buffer.from([0, 9, 0x73, 0])
+      await client.put(badKey).value(value)
+      const quarantining = quarantined(subject)
+      expect(await subject.promises.get('badSid')).toBeNull()
+      expect((await quarantining).error).toBeInstanceOf(InvalidSessionError)
+      expect(await client.get(quarantineKey).buffer()).toEqual(value)
+    })
+
+    it('should quarantine the values that can not be decompressed', async () => {
+      const { subject, client } = await createSubject({ validation: true })
+      await client.put(badKey).value(writeFrame(FrameType.Compressed, 'gzip', Buffer.from('x')))
+      const quarantining = quarantined(subject)
+      expect(await subject.promises.all()).toEqual({ [sessionData.sid]: sessionData })
+      expect((await quarantining).error).toBeInstanceOf(InvalidSessionError)
+    })
+
+    it('should skip the broken envelopes when iterating over them', async () => {
+      const { subject, client } = await createSubject({ validation: true })
+      await client.put(badKey).value(Buffer.from([0, 9, 0x73, 0]))
+      const sids = (await collect(subject.iterate())).map(entry => entry.sid)
+      expect(sids).toEqual([sessionData.sid])
+    })
+
+    it('should skip the invalid sessions when listing them', async () => {
+      const { subject, client } = await createSubject({ validation: true })
+      await client.put(badKey).value('typo{b:1}')
+      expect(await subject.promises.all()).toEqual({ [sessionData.sid]: sessionData })
+      await quarantined(subject)
+      expect(await subject.promises.length()).toBe(1)
+    })
+
+    it('should skip the invalid sessions when iterating over them', async () => {
+      const { subject, client } = await createSubject({ validation: true })
+      await client.put(badKey).value('typo{b:1}')
+      const sids = (await collect(subject.iterate())).map(entry => entry.sid)
+      expect(sids).toEqual([sessionData.sid])
+    })
+
+    it('should not quarantine the sessions changed meanwhile', async () => {
+      const { subject, client } = await createSubject({ validation: true })
+      await client.put(badKey).value('typo{b:1}')
+      const listener = jest.fn()
+      subject.on('quarantined', listener)
+      const kv = (await client.get(badKey).exec()).kvs[0]
+      await client.put(badKey).value(JSON.stringify(sessionData))
+      subject['quarantine'](kv, new InvalidSessionError('invalid'))
+      await new Promise(resolve => setTimeout(resolve, 100))
+      expect(listener).not.toHaveBeenCalled()
+      expect(await subject.promises.get('badSid')).toEqual(sessionData)
+    })
+
+    it('should still give an error for the bad data without the option', async () => {
+      const { subject, client } = await createSubject()
+      await client.put(badKey).value('typo{b:1}')
+      await expect(subject.promises.get('badSid')).rejects.toBeInstanceOf(InvalidSessionError)
+    })
+  })
+
+  describe('when chunking the large sessions', () => {
+    const bigSession = { ...sessionData, data: 'x'.repeat(500) }
+    const key = defaultOptions.prefix + '/' + newSid
+
+    async function createChunkingSubject(options: Partial<Etcd3StoreOptions> = {}) {
+      const created = await createSubject({ chunking: { chunkSize: 64 }, ...options })
+      jest.spyOn(created.subject, 'getTTL' as any).mockReturnValue(100)
+      await created.subject.promises.set(newSid, bigSession)
+      return created
+    }
+
+    function chunkKeys() {
+      return client
+        .getAll()
+        .prefix(key + '/')
+        .keys()
+    }
+
+    it('should read back the session split into chunks', async () => {
+      const { subject } = await createChunkingSubject()
+      expect(await subject.promises.get(newSid)).toEqual(bigSession)
+    })
+
+    it('should write the chunks under the generation, bound to the lease', async () => {
+      await createChunkingSubject()
+      const [kv] = (await client.get(key).exec()).kvs
+      const keys = await chunkKeys()
+      expect(keys.length).toBe(Math.ceil(JSON.stringify(bigSession).length / 64))
+      keys.forEach(chunk => expect(chunk).toMatch(/\/[0-9a-f]{16}\/\d+$/))
+      const chunks = await client
+        .getAll()
+        .prefix(key + '/')
+        .exec()
+      chunks.kvs.forEach(chunk => expect(chunk.lease).toBe(kv.lease))
+    })
+
+    it('should count and list every session once', async () => {
+      const { subject } = await createChunkingSubject()
+      expect(await subject.promises.length()).toBe(2)
+      expect(await subject.promises.all()).toEqual({
+        [sessionData.sid]: sessionData,
+        [newSid]: bigSession
+      })
+      const sids = (await collect(subject.iterate())).map(entry => entry.sid)
+      expect(sids.sort()).toEqual([newSid, sessionData.sid].sort())
+    })
+
+    it('should destroy the chunks along the session', async () => {
+      const { subject } = await createChunkingSubject()
+      await subject.promises.destroy(newSid)
+      expect(await chunkKeys()).toEqual([])
+    })
+
+    it('should destroy the chunks along many sessions', async () => {
+      const { subject } = await createChunkingSubject()
+      expect(await subject.promises.destroyMany([newSid])).toEqual([newSid])
+      expect(await chunkKeys()).toEqual([])
+    })
+
+    describe('with a user index', () => {
+      const indexKey = defaultOptions.prefix + ':users/42/' + newSid
+
+      async function createIndexedSubject() {
+        const created = await createChunkingSubject({ userField: 'user' })
+        await created.subject.promises.set(newSid, { ...bigSession, user: 42 })
+        expect(await client.get(indexKey).string()).toBe('')
+        return created
+      }
+
+      it('should remove the index entry of the destroyed session', async () => {
+        const { subject } = await createIndexedSubject()
+        await subject.promises.destroy(newSid)
+        expect(await client.get(indexKey).string()).toBeNull()
+      })
+
+      it('should remove the index entries of many destroyed sessions', async () => {
+        const { subject } = await createIndexedSubject()
+        expect(await subject.promises.destroyMany([newSid])).toEqual([newSid])
+        expect(await client.get(indexKey).string()).toBeNull()
+      })
+    })
+
+    it('should read the new generation once rewritten and drop the previous one', async () => {
+      const { subject } = await createChunkingSubject()
+      const previous = await chunkKeys()
+      const rewritten = { ...bigSession, data: 'y'.repeat(300) }
+      await subject.promises.set(newSid, rewritten)
+      expect(await subject.promises.get(newSid)).toEqual(rewritten)
+      await new Promise(resolve => setTimeout(resolve, 100))
+      const keys = await chunkKeys()
+      expect(keys.length).toBeGreaterThan(0)
+      keys.forEach(chunk => expect(previous).not.toContain(chunk))
+    })
+
+    it('should drop the chunks once rewritten under the chunk size', async () => {
+      const { subject } = await createChunkingSubject()
+      await subject.promises.set(newSid, sessionData)
+      expect(await subject.promises.get(newSid)).toEqual(sessionData)
+      await new Promise(resolve => setTimeout(resolve, 100))
+      expect(await chunkKeys()).toEqual([])
+    })
+
+    it('should drop the chunks once rewritten under the chunk size in a batch', async () => {
+      const { subject } = await createChunkingSubject({ batching: true })
+      await subject.promises.set(newSid, sessionData)
+      await new Promise(resolve => setTimeout(resolve, 100))
+      expect(await chunkKeys()).toEqual([])
+    })
+
+    it('should give an error when the chunks are missing', async () => {
+      const { subject } = await createChunkingSubject()
+      await client.delete().key((await chunkKeys())[0])
+      await expect(subject.promises.get(newSid)).rejects.toBeInstanceOf(InvalidSessionError)
+    })
+
+    it('should not split the values under the chunk size', async () => {
+      const { subject } = await createChunkingSubject()
+      await subject.promises.set(newSid, sessionData)
+      expect(JSON.parse((await client.get(key).string())!)).toEqual(sessionData)
+    })
+
+    it('should keep the large values whole without the option', async () => {
+      const { subject } = await createSubject()
+      jest.spyOn(subject, 'getTTL' as any).mockReturnValue(100)
+      await subject.promises.set(newSid, bigSession)
+      expect(JSON.parse((await client.get(key).string())!)).toEqual(bigSession)
+      expect(await chunkKeys()).toEqual([])
+    })
+  })
+
+  describe('when capping the session lifetime', () => {
+    const key = defaultOptions.prefix + '/' + newSid
+
+    function putCreated(createdAt: number) {
+      return client.put(key).value(JSON.stringify({ ...sessionData, [createdAtField]: createdAt }))
+    }
+
+    it('should record the creation time of the new sessions', async () => {
+      const { subject } = await createSubject({ absoluteTimeout: 60 })
+      const session: any = { ...sessionData }
+      await subject.promises.set(newSid, session)
+      expect(session[createdAtField]).toBeCloseTo(Date.now(), -4)
+      expect(await subject.promises.get(newSid)).toEqual(session)
+    })
+
+    it('should cap the lease at the lifetime left', async () => {
+      const { subject } = await createSubject({ absoluteTimeout: 60 })
+      jest.spyOn(subject, 'getRawTTL' as any).mockReturnValue(3600)
+      const session = { ...sessionData, [createdAtField]: Date.now() - 30000 }
+      await subject.promises.set(newSid, session)
+      const [kv] = (await client.get(key).exec()).kvs
+      const lease = await client.leaseClient.leaseTimeToLive({ ID: kv.lease })
+      expect(Number(lease.grantedTTL)).toBeLessThanOrEqual(30)
+    })
+
+    it('should keep the shorter ttl', async () => {
+      const { subject } = await createSubject({ absoluteTimeout: 60 })
+      jest.spyOn(subject, 'getRawTTL' as any).mockReturnValue(10)
+      expect(subject['getTTL']({ ...sessionData, [createdAtField]: Date.now() }, newSid)).toBe(10)
+    })
+
+    it('should give null once the lifetime is over', async () => {
+      const { subject } = await createSubject({ absoluteTimeout: 60 })
+      await putCreated(Date.now() - 61000)
+      expect(await subject.promises.get(newSid)).toBeNull()
+    })
+
+    it('should destroy the sessions set or touched once the lifetime is over', async () => {
+      const { subject } = await createSubject({ absoluteTimeout: 60 })
+      const session = { ...sessionData, [createdAtField]: Date.now() - 61000 }
+      await putCreated(session[createdAtField])
+      await subject.promises.touch(newSid, session)
+      expect(await client.get(key).string()).toBeNull()
+      await subject.promises.set(newSid, session)
+      expect(await client.get(key).string()).toBeNull()
+    })
+
+    it('should leave out the sessions over their lifetime when listing them', async () => {
+      const { subject } = await createSubject({ absoluteTimeout: 60 })
+      await putCreated(Date.now() - 61000)
+      expect(await subject.promises.all()).toEqual({ [sessionData.sid]: sessionData })
+      expect(await subject.promises.length()).toBe(1)
+      const sids = (await collect(subject.iterate())).map(entry => entry.sid)
+      expect(sids).toEqual([sessionData.sid])
+    })
+
+    it('should move the session to a lease of the ttl capped by the lifetime when touched', async () => {
+      const { subject } = await createSubject({ absoluteTimeout: 60 })
+      const getTTL = jest.spyOn(subject, 'getTTL' as any).mockReturnValue(100)
+      await subject.promises.set(newSid, sessionData)
+      const leaseClient = client.leaseClient
+      const timeToLive = leaseClient.leaseTimeToLive.bind(leaseClient)
+      jest
+        .spyOn(leaseClient, 'leaseTimeToLive')
+        .mockImplementationOnce((req: any) =>
+          timeToLive(req).then((res: any) => ({ ...res, TTL: '20' }))
+        )
+      getTTL.mockReturnValue(50)
+      await subject.promises.touch(newSid, sessionData)
+      const [kv] = (await client.get(key).exec()).kvs
+      const lease = await leaseClient.leaseTimeToLive({ ID: kv.lease })
+      expect(Number(lease.grantedTTL)).toBe(50)
+    })
+
+    it('should not end the sessions written before enabling it', async () => {
+      const { subject } = await createSubject({ absoluteTimeout: 60 })
+      expect(await subject.promises.get(sessionData.sid)).toEqual(sessionData)
+    })
+
+    it('should not end the sessions without the option', async () => {
+      const { subject } = await createSubject()
+      await putCreated(Date.now() - 61000)
+      expect(await subject.promises.get(newSid)).not.toBeNull()
+    })
+  })
+
+  describe('when expiring the idle sessions', () => {
+    const key = defaultOptions.prefix + '/' + newSid
+    const seenKey = defaultOptions.prefix + ':seen/' + newSid
+
+    async function createIdleSubject() {
+      const created = await createSubject({ idleTimeout: 30 })
+      jest.spyOn(created.subject, 'getRawTTL' as any).mockReturnValue(3600)
+      await created.subject.promises.set(newSid, sessionData)
+      return created
+    }
+
+    async function grantedTTL(leasedKey: string) {
+      const [kv] = (await client.get(leasedKey).exec()).kvs
+      const lease = await client.leaseClient.leaseTimeToLive({ ID: kv.lease })
+      return Number(lease.grantedTTL)
+    }
+
+    it('should bind the session to a lease of the idle timeout', async () => {
+      await createIdleSubject()
+      expect(await grantedTTL(key)).toBe(30)
+    })
+
+    it('should mark the session as seen until its cookie expires', async () => {
+      await createIdleSubject()
+      expect(await grantedTTL(seenKey)).toBe(3600)
+    })
+
+    it('should give an error for the sessions expired after being idle', async () => {
+      const { subject } = await createIdleSubject()
+      await client.delete().key(key)
+      const error = await subject.promises.get(newSid).catch(err => err)
+      expect(error).toBeInstanceOf(IdleTimeoutError)
+      expect(error).toMatchObject({ sid: newSid, code: 'ENOENT' })
+    })
+
+    it('should emit the sessions expired after being idle', async () => {
+      const { subject } = await createIdleSubject()
+      await client.delete().key(key)
+      const listener = jest.fn()
+      subject.on('idle', listener)
+      await expect(subject.promises.get(newSid)).rejects.toBeInstanceOf(IdleTimeoutError)
+      expect(listener).toHaveBeenCalledWith({ sid: newSid, error: expect.any(IdleTimeoutError) })
+    })
+
+    it('should keep the session marked as seen when it is touched', async () => {
+      const { subject } = await createIdleSubject()
+      const [before] = (await client.get(seenKey).exec()).kvs
+      await subject.promises.touch(newSid, sessionData)
+      const [after] = (await client.get(seenKey).exec()).kvs
+      expect(after.lease).toBe(before.lease)
+      await client.delete().key(seenKey)
+      await subject.promises.touch(newSid, sessionData)
+      expect(await grantedTTL(seenKey)).toBe(3600)
+    })
+
+    it('should release the lease of the session when the mark fails', async () => {
+      const { subject } = await createIdleSubject()
+      const error = new Error('mark failed')
+      jest.spyOn(subject, 'markSeen' as any).mockReturnValue(Promise.reject(error))
+      const release = jest.spyOn(Lease.prototype, 'release')
+      await expect(subject.promises.set(newSid, sessionData)).rejects.toBe(error)
+      expect(release).toHaveBeenCalled()
+      release.mockRestore()
+    })
+
+    it('should give null for the sessions that never existed', async () => {
+      const { subject } = await createIdleSubject()
+      expect(await subject.promises.get('nope')).toBeNull()
+    })
+
+    it('should give null for the destroyed sessions', async () => {
+      const { subject } = await createIdleSubject()
+      await subject.promises.destroy(newSid)
+      expect(await client.get(seenKey).string()).toBeNull()
+      expect(await subject.promises.get(newSid)).toBeNull()
+    })
+
+    it('should give null for the sessions destroyed together', async () => {
+      const { subject } = await createIdleSubject()
+      await subject.promises.destroyMany([newSid])
+      expect(await subject.promises.get(newSid)).toBeNull()
+    })
+
+    it('should give null for the destroyed sessions of a user', async () => {
+      const { subject } = await createSubject({ idleTimeout: 30, userField: 'userId' })
+      await subject.promises.set(newSid, { ...sessionData, userId: 'u1' })
+      await subject.promises.destroyUserSessions('u1')
+      expect(await client.get(seenKey).string()).toBeNull()
+      expect(await subject.promises.get(newSid)).toBeNull()
+    })
+
+    it('should not count the marks as sessions', async () => {
+      const { subject } = await createIdleSubject()
+      expect(await subject.promises.length()).toBe(2)
+      await subject.promises.clear()
+      expect(await client.get(seenKey).string()).toBeNull()
+    })
   })
 
-  it('should work with a default client instance', () => {
-    const options = { hosts: 'myhost' }
-    const subject = new Etcd3Store(options)
-    expect(subject['client']).toBeTruthy()
-    expect(subject['client']['pool']['options']).toBe(options)
-    tearDownTestClient(subject['client'])
+  describe('when throttling the touches', () => {
+    async function createThrottledSubject() {
+      const created = await createSubject({ touchThrottle: true })
+      const getTTL = jest.spyOn(created.subject, 'getTTL' as any).mockReturnValue(100)
+      jest.spyOn(created.subject, 'refreshLease' as any)
+      await created.subject.promises.set(newSid, sessionData)
+      return { ...created, getTTL }
+    }
+
+    it('should not touch the sessions with most of their lease left', async () => {
+      const { subject } = await createThrottledSubject()
+      await subject.promises.touch(newSid, sessionData)
+      expect(subject['refreshLease']).not.toHaveBeenCalled()
+    })
+
+    it('should touch the sessions under the threshold', async () => {
+      const { subject } = await createThrottledSubject()
+      const now = Date.now()
+      const dateNow = jest.spyOn(Date, 'now')
+      dateNow.mockReturnValue(now + 60000)
+      try {
+        await subject.promises.touch(newSid, sessionData)
+        expect(subject['refreshLease']).toHaveBeenCalledTimes(1)
+        await subject.promises.touch(newSid, sessionData)
+        expect(subject['refreshLease']).toHaveBeenCalledTimes(1)
+      } finally {
+        dateNow.mockRestore()
+      }
+    })
+
+    it('should touch the sessions when their ttl grew', async () => {
+      const { subject, getTTL } = await createThrottledSubject()
+      getTTL.mockReturnValue(300)
+      await subject.promises.touch(newSid, sessionData)
+      expect(subject['refreshLease']).toHaveBeenCalled()
+    })
+
+    it('should not touch the sessions when their ttl is a second shorter', async () => {
+      const { subject, getTTL } = await createThrottledSubject()
+      getTTL.mockReturnValue(99)
+      await subject.promises.touch(newSid, sessionData)
+      expect(subject['refreshLease']).not.toHaveBeenCalled()
+    })
+
+    it('should touch the sessions not written by this instance', async () => {
+      const { subject } = await createThrottledSubject()
+      await subject.promises.touch(sessionData.sid, sessionData)
+      expect(subject['refreshLease']).toHaveBeenCalled()
+    })
+
+    it('should set again the destroyed sessions on touch', async () => {
+      const { subject } = await createThrottledSubject()
+      await subject.promises.destroy(newSid)
+      await subject.promises.touch(newSid, sessionData)
+      expect(await subject.promises.get(newSid)).toEqual(sessionData)
+    })
+  })
+
+  describe('when batching the writes', () => {
+    async function createBatchingSubject(options: Partial<Etcd3StoreOptions> = {}) {
+      const created = await createSubject({ batching: true, ...options })
+      const getTTL = jest.spyOn(created.subject, 'getTTL' as any).mockReturnValue(100)
+      const leaseGrant = jest.spyOn(created.client.leaseClient, 'leaseGrant')
+      jest.spyOn(created.subject, 'writeBatch' as any)
+      return { ...created, getTTL, leaseGrant }
+    }
+
+    it('should write the sessions set together in a single transaction', async () => {
+      const { subject, client } = await createBatchingSubject()
+      await Promise.all([
+        subject.promises.set('sid1', sessionData),
+        subject.promises.set('sid2', sessionData)
+      ])
+      expect(subject['writeBatch']).toHaveBeenCalledTimes(1)
+      expect(client.leaseClient.leaseGrant).toHaveBeenCalledTimes(2)
+      expect(await subject.promises.get('sid1')).toEqual(sessionData)
+      expect(await subject.promises.get('sid2')).toEqual(sessionData)
+    })
+
+    it('should bind every session to a lease of its own with its ttl', async () => {
+      const { subject, client, getTTL } = await createBatchingSubject()
+      getTTL.mockImplementation((session: any, sid: string) => (sid === 'sid3' ? 200 : 100))
+      await Promise.all(['sid1', 'sid2', 'sid3'].map(sid => subject.promises.set(sid, sessionData)))
+      const kvs = await Promise.all(
+        ['sid1', 'sid2', 'sid3'].map(
+          async sid => (await client.get(defaultOptions.prefix + '/' + sid).exec()).kvs[0]
+        )
+      )
+      expect(kvs[0].lease).not.toBe(kvs[1].lease)
+      const lease = await client.leaseClient.leaseTimeToLive({ ID: kvs[2].lease, keys: true })
+      expect(Number(lease.grantedTTL)).toBe(200)
+      expect(lease.keys.map(key => key.toString())).toEqual([defaultOptions.prefix + '/sid3'])
+    })
+
+    it('should send the pending write of the session before getting it', async () => {
+      const { subject } = await createBatchingSubject({ batching: { maxDelay: 1000 } })
+      const session = { ...sessionData, count: 1 }
+      const setting = subject.promises.set(sessionData.sid, session)
+      expect(await subject.promises.get(sessionData.sid)).toEqual(session)
+      await setting
+    })
+
+    it('should only write the last session set for the same sid', async () => {
+      const { subject } = await createBatchingSubject()
+      const last = { ...sessionData, count: 2 }
+      await Promise.all([
+        subject.promises.set(newSid, { ...sessionData, count: 1 }),
+        subject.promises.set(newSid, last)
+      ])
+      expect(subject['writeBatch']).toHaveBeenCalledWith([expect.objectContaining({ ttl: 100 })])
+      expect(await subject.promises.get(newSid)).toEqual(last)
+    })
+
+    it('should let a touch join the pending write of its session', async () => {
+      const { subject } = await createBatchingSubject()
+      jest.spyOn(subject, 'refreshLease' as any)
+      await Promise.all([
+        subject.promises.set(newSid, sessionData),
+        subject.promises.touch(newSid, sessionData)
+      ])
+      expect(subject['refreshLease']).not.toHaveBeenCalled()
+    })
+
+    it('should give the error of the batch to every caller', async () => {
+      const { subject, leaseGrant } = await createBatchingSubject()
+      const error = new Error('unavailable')
+      leaseGrant.mockImplementation(() => Promise.reject(error))
+      const results = await Promise.all(
+        ['sid1', 'sid2'].map(sid => subject.promises.set(sid, sessionData).catch(err => err))
+      )
+      expect(results).toEqual([error, error])
+    })
+
+    it('should send the pending writes before destroying the session', async () => {
+      const { subject } = await createBatchingSubject()
+      const setting = subject.promises.set(newSid, sessionData)
+      await subject.promises.destroy(newSid)
+      await setting
+      expect(await subject.promises.get(newSid)).toBeNull()
+    })
+
+    it('should not batch the writes needing their own transaction', async () => {
+      const { subject } = await createBatchingSubject({ userField: 'user.id' })
+      await subject.promises.set(newSid, { ...sessionData, user: { id: 'u1' } })
+      expect(subject['writeBatch']).not.toHaveBeenCalled()
+      expect(Object.keys(await subject.promises.sessionsForUser('u1'))).toEqual([newSid])
+    })
+  })
+
+  describe('when locking the sessions', () => {
+    const lockKey = defaultOptions.prefix + ':locks/' + sessionData.sid
+
+    it('should run the function holding the lock of the session', async () => {
+      const { subject, client } = await createSubject()
+      const result = await subject.withSessionLock(sessionData.sid, async () => {
+        expect(await client.get(lockKey).string()).toBe('')
+        return 42
+      })
+      expect(result).toBe(42)
+      expect(await client.get(lockKey).string()).toBeNull()
+    })
+
+    it('should run the functions of the same session one at a time', async () => {
+      const { subject } = await createSubject()
+      const steps: string[] = []
+      const step = (name: string) => async () => {
+        steps.push(name + ' start')
+        await new Promise(resolve => setTimeout(resolve, 50))
+        steps.push(name + ' end')
+      }
+      await Promise.all([
+        subject.withSessionLock(sessionData.sid, step('a'), { retryDelay: 10 }),
+        subject.withSessionLock(sessionData.sid, step('b'), { retryDelay: 10 })
+      ])
+      expect(steps).toHaveLength(4)
+      expect(steps[1]).toBe(steps[0].replace('start', 'end'))
+      expect(steps[3]).toBe(steps[2].replace('start', 'end'))
+    })
+
+    it('should release the lock when the function fails', async () => {
+      const { subject, client } = await createSubject()
+      const error = new Error()
+      const running = subject.withSessionLock(sessionData.sid, () => Promise.reject(error))
+      await expect(running).rejects.toBe(error)
+      expect(await client.get(lockKey).string()).toBeNull()
+    })
+
+    it('should fail when the lock is still held after the timeout', async () => {
+      const { subject } = await createSubject()
+      const release = await subject.lockSession(sessionData.sid)
+      const fn = jest.fn()
+      const running = subject.withSessionLock(sessionData.sid, fn, { timeout: 100 })
+      await expect(running).rejects.toBeInstanceOf(SessionLockError)
+      expect(fn).not.toHaveBeenCalled()
+      await release()
+    })
+
+    it('should bind the lock to a lease of the ttl', async () => {
+      const { subject, client } = await createSubject()
+      const release = await subject.lockSession(sessionData.sid, { ttl: 10 })
+      const [kv] = (await client.get(lockKey).exec()).kvs
+      const lease = await client.leaseClient.leaseTimeToLive({ ID: kv.lease })
+      expect(Number(lease.grantedTTL)).toBe(10)
+      await release()
+    })
+
+    it('should not count the locks as sessions', async () => {
+      const { subject } = await createSubject()
+      await subject.withSessionLock(sessionData.sid, async () => {
+        expect(await subject.promises.length()).toBe(1)
+      })
+    })
+  })
+
+  describe('when reading the session history', () => {
+    const key = defaultOptions.prefix + '/' + newSid
+    const versions = [1, 2, 3].map(n => ({ ...sessionData, n }))
+
+    async function createHistorySubject(options: Partial<Etcd3StoreOptions> = {}) {
+      const created = await createSubject(options)
+      jest.spyOn(created.subject, 'getTTL' as any).mockReturnValue(100)
+      for (const version of versions) {
+        await created.subject.promises.set(newSid, version)
+      }
+      return created
+    }
+
+    it('should give the previous versions from the most recent one', async () => {
+      const { subject } = await createHistorySubject()
+      const history = await subject.history(newSid)
+      expect(history.map(version => version.session)).toEqual(versions.slice().reverse())
+      expect(history.map(version => version.version)).toEqual([3, 2, 1])
+      const [kv] = (await client.get(key).exec()).kvs
+      expect(history[0].revision).toBe(kv.mod_revision)
+      expect(Number(history[1].revision)).toBeLessThan(Number(history[0].revision))
+    })
+
+    it('should give at most the limit of versions', async () => {
+      const { subject } = await createHistorySubject()
+      const history = await subject.history(newSid, { limit: 2 })
+      expect(history.map(version => version.version)).toEqual([3, 2])
+    })
+
+    it('should reject a limit that is not a positive integer', async () => {
+      const { subject } = await createSubject()
+      await expect(subject.history(newSid, { limit: 0 })).rejects.toBeInstanceOf(RangeError)
+      await expect(subject.history(newSid, { limit: 1.5 })).rejects.toBeInstanceOf(RangeError)
+    })
+
+    it('should give no history for a missing session', async () => {
+      const { subject } = await createSubject()
+      expect(await subject.history(newSid)).toEqual([])
+    })
+
+    it('should give the time of the writes with the history option', async () => {
+      const before = Date.now()
+      const { subject } = await createHistorySubject({ history: true })
+      const history = await subject.history(newSid)
+      history.forEach(version => {
+        expect(version.updatedAt).toBeGreaterThanOrEqual(before)
+        expect(version.session![updatedAtField]).toBe(version.updatedAt)
+      })
+    })
+
+    it('should give the versions of the chunked sessions', async () => {
+      const { subject } = await createSubject({ chunking: { chunkSize: 64 } })
+      jest.spyOn(subject, 'getTTL' as any).mockReturnValue(100)
+      const big = versions.map(version => ({ ...version, data: 'x'.repeat(200) }))
+      for (const version of big) {
+        await subject.promises.set(newSid, version)
+      }
+      const history = await subject.history(newSid)
+      expect(history.map(version => version.session)).toEqual(big.slice().reverse())
+    })
+
+    it('should restore a previous version under a new lease', async () => {
+      const { subject } = await createHistorySubject()
+      const [, previous] = await subject.history(newSid)
+      const [before] = (await client.get(key).exec()).kvs
+      expect(await subject.restore(newSid, previous.revision)).toEqual(versions[1])
+      expect(await subject.promises.get(newSid)).toEqual(versions[1])
+      const [after] = (await client.get(key).exec()).kvs
+      expect(after.lease).not.toBe(before.lease)
+      expect(after.version).toBe('4')
+    })
+
+    it('should fail to restore a revision without the session', async () => {
+      const { subject } = await createHistorySubject()
+      const [first] = (await subject.history(newSid)).slice(-1)
+      const revision = Number(first.revision) - 1
+      await expect(subject.restore(newSid, revision)).rejects.toBeInstanceOf(RangeError)
+    })
+
+    it('should stop at the compaction and fail to restore a compacted revision', async () => {
+      const { subject } = await createHistorySubject()
+      const [current, previous] = await subject.history(newSid)
+      await client.kv.compact({ revision: current.revision, physical: true })
+      expect(await subject.history(newSid)).toEqual([current])
+      const restoring = subject.restore(newSid, previous.revision)
+      await expect(restoring).rejects.toBeInstanceOf(CompactedRevisionError)
+      await expect(restoring).rejects.toMatchObject({ revision: previous.revision })
+    })
   })
 
   describe('when getting the session data', () => {
@@ -59,6 +1621,59 @@ describe('Etcd3Store test suit', () => {
       })
     })
 
+    it('should read a session written by another serializer', async done => {
+      const { subject } = await createSubject({ serializer: msgpackSerializer })
+      jest.spyOn(subject, 'getTTL' as any).mockReturnValue(100)
+      subject.set(newSid, sessionData, () => {
+        subject['config'] = { ...subject['config'], serializer: undefined }
+        subject.get(newSid, (err, data) => {
+          expect(err).toBeNull()
+          expect(data).toEqual(sessionData)
+          done()
+        })
+      })
+    })
+
+    it('should read a session written by one of the configured custom serializers', async done => {
+      const reversed: Serializer = {
+        name: 'reversed',
+        serialize: session =>
+          JSON.stringify(session)
+            .split('')
+            .reverse()
+            .join(''),
+        deserialize: value =>
+          JSON.parse(
+            value
+              .toString()
+              .split('')
+              .reverse()
+              .join('')
+          )
+      }
+      const { subject } = await createSubject({ serializer: reversed })
+      jest.spyOn(subject, 'getTTL' as any).mockReturnValue(100)
+      subject.set(newSid, sessionData, () => {
+        subject['config'] = { ...subject['config'], serializer: undefined, serializers: [reversed] }
+        subject.get(newSid, (err, data) => {
+          expect(err).toBeNull()
+          expect(data).toEqual(sessionData)
+          done()
+        })
+      })
+    })
+
+    it('should return an error if the session was written by an unknown serializer', async done => {
+      const { subject, client } = await createSubject()
+      const value = writeFrame(FrameType.Serialized, 'unknown', Buffer.from('{}'))
+      await client.put(defaultOptions.prefix + '/' + newSid).value(value)
+      subject.get(newSid, (err, data) => {
+        expect(err).toBeInstanceOf(InvalidSessionError)
+        expect(data).toBeNull()
+        done()
+      })
+    })
+
     it('should return null for a non existing sid', async done => {
       const { subject } = await createSubject()
       subject.get('non existing sid', (err, data) => {
@@ -94,7 +1709,7 @@ describe('Etcd3Store test suit', () => {
     it('should return an error at the callback if the client return an rejected promise', async done => {
       const { subject } = await createSubject()
       jest
-        .spyOn(SingleRangeBuilder.prototype, 'json')
+        .spyOn(SingleRangeBuilder.prototype, 'exec')
         .mockReturnValueOnce(Promise.reject('any rejection'))
       subject.get(sessionData.sid, err => {
         expect(err).toBeTruthy()
@@ -111,9 +1726,11 @@ describe('Etcd3Store test suit', () => {
         expect(err).toBeNull()
         client
           .get(defaultOptions.prefix + '/' + newSid)
-          .json()
+          .buffer()
           .then(data => {
-            expect(data).toEqual(sessionData)
+            expect(subject['decode'](data, defaultOptions.prefix + '/' + newSid)).toEqual(
+              sessionData
+            )
             done()
           })
       })
@@ -126,9 +1743,28 @@ describe('Etcd3Store test suit', () => {
         expect(err).toBeNull()
         client
           .get(anotherPrefix + '/' + newSid)
-          .json()
+          .buffer()
+          .then(data => {
+            expect(subject['decode'](data, anotherPrefix + '/' + newSid)).toEqual(sessionData)
+            done()
+          })
+      })
+    })
+
+    it('should write the session inside an envelope with the serializer name', async done => {
+      const { subject } = await createSubject({ serializer: msgpackSerializer })
+      jest.spyOn(subject, 'getTTL' as any).mockReturnValue(100)
+      subject.set(newSid, sessionData, err => {
+        expect(err).toBeNull()
+        client
+          .get(defaultOptions.prefix + '/' + newSid)
+          .buffer()
           .then(data => {
-            expect(data).toEqual(sessionData)
+            expect(readFrame(data)).toEqual({
+              type: FrameType.Serialized,
+              meta: 'msgpack',
+              payload: msgpackSerializer.serialize(sessionData)
+            })
             done()
           })
       })
@@ -158,9 +1794,11 @@ describe('Etcd3Store test suit', () => {
         setTimeout(() => {
           client
             .get(defaultOptions.prefix + '/' + newSid)
-            .json()
+            .buffer()
             .then(data => {
-              expect(data).toEqual(sessionData)
+              expect(subject['decode'](data, defaultOptions.prefix + '/' + newSid)).toEqual(
+                sessionData
+              )
               done()
             })
         }, ttl * 900)
@@ -190,12 +1828,94 @@ describe('Etcd3Store test suit', () => {
   })
 
   describe('when touching session data', () => {
-    it('should set it again', async () => {
-      const { subject, client } = await createSubject()
-      jest.spyOn(subject, 'set').mockImplementation(jest.fn())
+    it('should set it again if there is no lease to refresh', async done => {
+      const { subject } = await createSubject()
       const callback = jest.fn()
+      jest.spyOn(subject, 'set').mockImplementation((sid, session, cb) => {
+        expect(sid).toBe(sessionData.sid)
+        expect(session).toBe(sessionData)
+        expect(cb).toBe(callback)
+        done()
+      })
       subject.touch(sessionData.sid, sessionData, callback)
-      expect(subject.set).toHaveBeenCalledWith(sessionData.sid, sessionData, callback)
+    })
+
+    it('should keep alive the existing lease without setting the session again', async done => {
+      const { subject } = await createSubject()
+      jest.spyOn(subject, 'getTTL' as any).mockReturnValue(100)
+      subject.set(newSid, sessionData, err => {
+        expect(err).toBeNull()
+        jest.spyOn(subject, 'set')
+        jest.spyOn(subject, 'keepAlive' as any)
+        subject.touch(newSid, sessionData, err => {
+          expect(err).toBeNull()
+          expect(subject['keepAlive']).toHaveBeenCalled()
+          expect(subject.set).not.toHaveBeenCalled()
+          done()
+        })
+      })
+    })
+
+    it('should leave the lease alone while its time left covers the ttl', async done => {
+      const { subject, client } = await createSubject()
+      const key = defaultOptions.prefix + '/' + newSid
+      const getTTL = jest.spyOn(subject, 'getTTL' as any).mockReturnValue(100)
+      subject.set(newSid, sessionData, async err => {
+        expect(err).toBeNull()
+        const [oldKv] = (await client.get(key).exec()).kvs
+        getTTL.mockReturnValue(50)
+        jest.spyOn(subject, 'keepAlive' as any)
+        subject.touch(newSid, sessionData, async err => {
+          expect(err).toBeNull()
+          const [kv] = (await client.get(key).exec()).kvs
+          expect(subject['keepAlive']).not.toHaveBeenCalled()
+          expect(kv.lease).toBe(oldKv.lease)
+          expect(kv.mod_revision).toBe(oldKv.mod_revision)
+          done()
+        })
+      })
+    })
+
+    it('should move the session to a new lease if the ttl has grown', async done => {
+      const { subject, client } = await createSubject()
+      const key = defaultOptions.prefix + '/' + newSid
+      const getTTL = jest.spyOn(subject, 'getTTL' as any).mockReturnValue(100)
+      subject.set(newSid, sessionData, async err => {
+        expect(err).toBeNull()
+        const [oldKv] = (await client.get(key).exec()).kvs
+        getTTL.mockReturnValue(200)
+        subject.touch(newSid, sessionData, async err => {
+          expect(err).toBeNull()
+          const [kv] = (await client.get(key).exec()).kvs
+          const lease = await client.leaseClient.leaseTimeToLive({ ID: kv.lease })
+          expect(kv.lease).not.toBe(oldKv.lease)
+          expect(kv.value).toEqual(oldKv.value)
+          expect(Number(lease.grantedTTL)).toBe(200)
+          done()
+        })
+      })
+    })
+
+    it('should return an error at the callback if the client blow up', async done => {
+      const { subject, client } = await createSubject()
+      jest.spyOn(client, 'get').mockImplementation(() => {
+        throw new Error()
+      })
+      subject.touch(sessionData.sid, sessionData, err => {
+        expect(err).toBeInstanceOf(Error)
+        done()
+      })
+    })
+
+    it('should return an error at the callback if the client return an rejected promise', async done => {
+      const { subject } = await createSubject()
+      jest
+        .spyOn(SingleRangeBuilder.prototype, 'exec')
+        .mockReturnValueOnce(Promise.reject('any rejection'))
+      subject.touch(sessionData.sid, sessionData, err => {
+        expect(err).toBeTruthy()
+        done()
+      })
     })
 
     it('should return the callback without set it again if skipTouch is true at the adapter config', async () => {
@@ -221,9 +1941,11 @@ describe('Etcd3Store test suit', () => {
         setTimeout(() => {
           client
             .get(defaultOptions.prefix + '/' + newSid)
-            .json()
+            .buffer()
             .then(data => {
-              expect(data).toEqual(sessionData)
+              expect(subject['decode'](data, defaultOptions.prefix + '/' + newSid)).toEqual(
+                sessionData
+              )
               done()
             })
         }, ttl * 1000 + ETCD_CLEAR_TIME)
@@ -256,7 +1978,7 @@ describe('Etcd3Store test suit', () => {
       const { subject } = await createSubject()
       subject.all((err, data) => {
         expect(err).toBeNull()
-        expect(data).toEqual([sessionData])
+        expect(data).toEqual({ [sessionData.sid]: sessionData })
         done()
       })
     })
@@ -265,16 +1987,16 @@ describe('Etcd3Store test suit', () => {
       const { subject } = await createSubject({ prefix: anotherPrefix })
       subject.all((err, data) => {
         expect(err).toBeNull()
-        expect(data).toEqual([sessionData])
+        expect(data).toEqual({ [sessionData.sid]: sessionData })
         done()
       })
     })
 
-    it('should return an empty array if there is no sessions at the used prefix', async done => {
+    it('should return an empty object if there is no sessions at the used prefix', async done => {
       const { subject } = await createSubject({ prefix: 'emptyprefix' })
       subject.all((err, data) => {
         expect(err).toBeNull()
-        expect(data).toEqual([])
+        expect(data).toEqual({})
         done()
       })
     })
@@ -302,6 +2024,39 @@ describe('Etcd3Store test suit', () => {
     })
   })
 
+  describe('when iterating over the sessions', () => {
+    const sids = ['sid1', 'sid2', 'sid3', 'sid4', 'sid5']
+
+    it('should give all the sessions in pages of the batch size', async () => {
+      const { subject } = await createSubject(
+        { prefix: 'paged' },
+        sids.map((sid, i): [string, any] => ['paged/' + sid, JSON.stringify({ i })])
+      )
+      const spy = jest.spyOn(MultiRangeBuilder.prototype, 'exec')
+      const entries = await collect(subject.iterate({ batchSize: 2 }))
+      expect(entries).toEqual(sids.map((sid, i) => ({ sid, session: { i } })))
+      expect(spy).toHaveBeenCalledTimes(3)
+      spy.mockRestore()
+    })
+
+    it('should give nothing if there is no sessions at the used prefix', async () => {
+      const { subject } = await createSubject({ prefix: 'emptyprefix' })
+      expect(await collect(subject.iterate())).toEqual([])
+    })
+
+    it('should not give the sessions of a prefix starting with the used one', async () => {
+      const { subject } = await createSubject({ prefix: 'sess' }, [['sess2/sid', '{}']])
+      expect(await collect(subject.iterate())).toEqual([
+        { sid: sessionData.sid, session: sessionData }
+      ])
+    })
+
+    it('should throw an error for an invalid batch size', async () => {
+      const { subject } = await createSubject()
+      await expect(subject.iterate({ batchSize: 0 }).next()).rejects.toBeInstanceOf(RangeError)
+    })
+  })
+
   describe('when counting the sessions', () => {
     it('should count the sessions data with default prefix', async done => {
       const { subject } = await createSubject()
@@ -395,13 +2150,81 @@ describe('Etcd3Store test suit', () => {
     it('should return an error at the callback if the client return an rejected promise', async done => {
       const { subject } = await createSubject()
       jest
-        .spyOn(DeleteBuilder.prototype, 'prefix')
+        .spyOn(DeleteBuilder.prototype, 'key')
         .mockReturnValueOnce(Promise.reject('any rejection'))
       subject.destroy(sessionData.sid, err => {
         expect(err).toBeTruthy()
         done()
       })
     })
+
+    it('should not destroy the sessions whose sid starts with the same characters', async done => {
+      const otherKey = defaultOptions.prefix + '/' + sessionData.sid + 'def'
+      const { subject, client } = await createSubject({}, [[otherKey, '{}']])
+      subject.destroy(sessionData.sid, async err => {
+        expect(err).toBeNull()
+        expect(await client.get(otherKey)).toBe('{}')
+        done()
+      })
+    })
+  })
+
+  describe('when destroying many sessions', () => {
+    const otherKey = defaultOptions.prefix + '/other-sid'
+
+    it('should destroy the sessions and give the ones that existed', async done => {
+      const { subject, client } = await createSubject({}, [[otherKey, '{}']])
+      subject.destroyMany([sessionData.sid, 'other-sid', 'missing-sid'], async (err, sids) => {
+        expect(err).toBeNull()
+        expect(sids.sort()).toEqual(['other-sid', sessionData.sid])
+        const count = await client
+          .getAll()
+          .prefix(defaultOptions.prefix + '/')
+          .count()
+        expect(count).toBe(0)
+        done()
+      })
+    })
+
+    it('should destroy the repeated sids once', async done => {
+      const { subject } = await createSubject()
+      subject.destroyMany([sessionData.sid, sessionData.sid], (err, sids) => {
+        expect(err).toBeNull()
+        expect(sids).toEqual([sessionData.sid])
+        done()
+      })
+    })
+
+    it('should give no sids when there is nothing to destroy', async done => {
+      const { subject } = await createSubject()
+      subject.destroyMany([], (err, sids) => {
+        expect(err).toBeNull()
+        expect(sids).toEqual([])
+        done()
+      })
+    })
+
+    it('should remove the user index entries of the sessions', async () => {
+      const { subject, client } = await createSubject({ userField: 'userId' })
+      jest.spyOn(subject, 'getTTL' as any).mockReturnValue(100)
+      await subject.promises.set('sid1', { ...sessionData, userId: 'user' })
+      await subject.promises.set('sid2', { ...sessionData, userId: 'user' })
+      expect(await subject.promises.destroyMany(['sid1'])).toEqual(['sid1'])
+      expect(Object.keys(await subject.promises.sessionsForUser('user'))).toEqual(['sid2'])
+      expect(await client.get(defaultOptions.prefix + ':users/user/sid1')).toBeNull()
+    })
+
+    it('should return an error at the callback if the client blow up', async done => {
+      const { subject, client } = await createSubject()
+      jest.spyOn(client, 'if').mockImplementationOnce(() => {
+        throw new Error()
+      })
+      subject.destroyMany([sessionData.sid], (err, sids) => {
+        expect(err).toBeInstanceOf(Error)
+        expect(sids).toBeNull()
+        done()
+      })
+    })
   })
 
   describe('when clearing all the sessions', () => {
@@ -483,6 +2306,49 @@ describe('Etcd3Store test suit', () => {
     })
   })
 
+  describe('when using the promises API', () => {
+    it('should resolve with the session', async () => {
+      const { subject } = await createSubject()
+      expect(await subject.promises.get(sessionData.sid)).toEqual(sessionData)
+      expect(await subject.promises.get('non existing sid')).toBeNull()
+    })
+
+    it('should set, count and destroy the sessions', async () => {
+      const { subject } = await createSubject()
+      jest.spyOn(subject, 'getTTL' as any).mockReturnValue(100)
+      await subject.promises.set(newSid, sessionData)
+      expect(await subject.promises.get(newSid)).toEqual(sessionData)
+      expect(await subject.promises.length()).toBe(2)
+      await subject.promises.destroy(newSid)
+      expect(await subject.promises.get(newSid)).toBeNull()
+      await subject.promises.clear()
+      expect(await subject.promises.length()).toBe(0)
+    })
+
+    it('should reject if the client blow up', async () => {
+      const { subject, client } = await createSubject()
+      jest.spyOn(client, 'get').mockImplementation(() => {
+        throw new Error()
+      })
+      await expect(subject.promises.get(sessionData.sid)).rejects.toBeInstanceOf(Error)
+    })
+
+    it('should reject if the client return an rejected promise', async () => {
+      const { subject } = await createSubject()
+      jest
+        .spyOn(MultiRangeBuilder.prototype, 'count')
+        .mockReturnValueOnce(Promise.reject('any rejection'))
+      await expect(subject.promises.length()).rejects.toBe('any rejection')
+    })
+
+    it('should reject if the ttl can not be computed', async () => {
+      const { subject } = await createSubject()
+      subject.ttl = {} as any
+      await expect(subject.promises.set(newSid, sessionData)).rejects.toBeInstanceOf(TypeError)
+      await expect(subject.promises.touch(newSid, sessionData)).rejects.toBeInstanceOf(TypeError)
+    })
+  })
+
   describe('when getting the ttl', () => {
     const ttl = 666
 
@@ -508,7 +2374,7 @@ describe('Etcd3Store test suit', () => {
 
     it('should throw an TypeError if the ttl attribute from the store has an unknown type', async () => {
       const { subject } = await createSubject()
-      subject['ttl'] = {}
+      subject.ttl = {} as any
       expect(() => subject['getTTL'](null, null)).toThrowError(TypeError)
     })
 
@@ -0,0 +1,126 @@
+import { checkHealth, HealthStatus, readinessHandler } from '../src/health'
+
+describe('Health test suit', () => {
+  const probeKey = 'sess/:health/probe'
+
+  function createClient(status: () => Promise<any> = () => Promise.resolve({ leader: '42' })) {
+    const put = jest.fn(() => Promise.resolve({}))
+    const del = jest.fn(() => Promise.resolve({}))
+    const lease = {
+      put: jest.fn(() => ({ value: put })),
+      revoke: jest.fn(() => Promise.resolve())
+    }
+    const client = {
+      maintenance: { status: jest.fn(status) },
+      lease: jest.fn(() => lease),
+      delete: jest.fn(() => ({ key: del }))
+    }
+    return { client: client as any, lease, put, del }
+  }
+
+  it('should be healthy when all the checks are ok', async () => {
+    const { client, lease, del } = createClient()
+    const status = await checkHealth(client, probeKey)
+    expect(status).toEqual({
+      healthy: true,
+      latency: expect.any(Number),
+      checks: {
+        connectivity: { ok: true },
+        leader: { ok: true },
+        latency: { ok: true },
+        write: { ok: true }
+      }
+    })
+    expect(lease.put).toHaveBeenCalledWith(probeKey)
+    expect(del).toHaveBeenCalledWith(probeKey)
+  })
+
+  it('should bind the probe to a short lease, revoked after the check', async () => {
+    const { client, lease, del } = createClient()
+    del.mockImplementation(() => Promise.reject(new Error('etcdserver: request timed out')))
+    const status = await checkHealth(client, probeKey)
+    expect(status.checks.write.ok).toBe(false)
+    expect(client.lease).toHaveBeenCalledWith(10)
+    expect(lease.revoke).toHaveBeenCalled()
+  })
+
+  it('should skip the other checks when etcd is unreachable', async () => {
+    const { client } = createClient(() => Promise.reject(new Error('unavailable')))
+    const status = await checkHealth(client, probeKey)
+    expect(status.healthy).toBe(false)
+    expect(status.latency).toBeUndefined()
+    expect(status.checks.connectivity).toEqual({ ok: false, error: 'unavailable' })
+    expect(status.checks.write.ok).toBe(false)
+    expect(client.lease).not.toHaveBeenCalled()
+  })
+
+  it('should time out when etcd does not answer', async () => {
+    const { client } = createClient(() => new Promise(() => undefined))
+    const status = await checkHealth(client, probeKey, { timeout: 10 })
+    expect(status.checks.connectivity).toEqual({ ok: false, error: 'Timed out after 10ms.' })
+  })
+
+  it('should fail without a leader', async () => {
+    const { client } = createClient(() => Promise.resolve({ leader: '0' }))
+    const status = await checkHealth(client, probeKey)
+    expect(status.healthy).toBe(false)
+    expect(status.checks.leader).toEqual({ ok: false, error: 'etcd has no leader.' })
+  })
+
+  it('should fail over the maximum latency', async () => {
+    const { client } = createClient(
+      () => new Promise(resolve => setTimeout(() => resolve({ leader: '42' }), 20))
+    )
+    const status = await checkHealth(client, probeKey, { maxLatency: 5 })
+    expect(status.healthy).toBe(false)
+    expect(status.checks.latency).toEqual({ ok: false, error: 'Latency over 5ms.' })
+  })
+
+  it('should fail without the write permission', async () => {
+    const { client, put } = createClient()
+    put.mockImplementation(() => Promise.reject(new Error('etcdserver: permission denied')))
+    const status = await checkHealth(client, probeKey)
+    expect(status.healthy).toBe(false)
+    expect(status.checks.write).toEqual({ ok: false, error: 'etcdserver: permission denied' })
+  })
+
+  it('should not write when the write check is disabled', async () => {
+    const { client } = createClient()
+    const status = await checkHealth(client, probeKey, { write: false })
+    expect(status.healthy).toBe(true)
+    expect(client.lease).not.toHaveBeenCalled()
+  })
+
+  describe('when answering the readiness probe', () => {
+    function respond(healthy: boolean) {
+      const status = { healthy } as HealthStatus
+      const store = { healthCheck: jest.fn(() => Promise.resolve(status)) }
+      return new Promise<{ code: number; body: any }>(resolve => {
+        const res: any = {
+          status: (code: number) => ({ json: (body: any) => resolve({ code, body }) })
+        }
+        readinessHandler(store, { write: false })({} as any, res, jest.fn())
+      }).then(answer => {
+        expect(store.healthCheck).toHaveBeenCalledWith({ write: false })
+        return answer
+      })
+    }
+
+    it('should answer 200 when the store is healthy', async () => {
+      expect(await respond(true)).toEqual({ code: 200, body: { healthy: true } })
+    })
+
+    it('should answer 503 when the store is unhealthy', async () => {
+      expect(await respond(false)).toEqual({ code: 503, body: { healthy: false } })
+    })
+
+    it('should pass the errors to the next handler', async () => {
+      const error = new Error()
+      const store = { healthCheck: () => Promise.reject(error) }
+      const next = jest.fn()
+      readinessHandler(store)({} as any, {} as any, next)
+      await new Promise(resolve => setImmediate(resolve))
+      expect(next).toHaveBeenCalledWith(error)
+    })
+  })
+})
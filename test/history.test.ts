@@ -0,0 +1,23 @@
+import { EtcdError } from 'etcd3/lib/src/errors'
+import { getUpdatedAt, isCompactedError, updatedAtField } from '../src/history'
+
+describe('History test suit', () => {
+  const now = 1500000000000
+
+  it('should tell the errors of the compacted revisions', () => {
+    const compacted = new EtcdError('etcdserver: mvcc: required revision has been compacted')
+    expect(isCompactedError(compacted)).toBe(true)
+    expect(isCompactedError(new EtcdError('etcdserver: request timed out'))).toBe(false)
+    expect(isCompactedError(new Error('required revision has been compacted'))).toBe(false)
+  })
+
+  it('should give the time of the write recorded at the session', () => {
+    expect(getUpdatedAt({ cookie: {}, [updatedAtField]: now } as any)).toBe(now)
+  })
+
+  it('should give no time for the sessions without a recorded one', () => {
+    expect(getUpdatedAt({ cookie: {} } as any)).toBeUndefined()
+    expect(getUpdatedAt({ cookie: {}, [updatedAtField]: String(now) } as any)).toBeUndefined()
+    expect(getUpdatedAt(null)).toBeUndefined()
+  })
+})
@@ -0,0 +1,47 @@
+import { asyncIterator, forEachAsync } from '../src/iteration'
+
+describe('Async iteration test suit', () => {
+  function countTo(max: number) {
+    let i = 0
+    return asyncIterator(() =>
+      Promise.resolve(
+        i < max ? { done: false, value: ++i } : { done: true, value: undefined as any }
+      )
+    )
+  }
+
+  it('should give the values with its next method', async () => {
+    const iterator = countTo(2)
+    expect(await iterator.next()).toEqual({ done: false, value: 1 })
+    expect(await iterator.next()).toEqual({ done: false, value: 2 })
+    expect(await iterator.next()).toMatchObject({ done: true })
+  })
+
+  it('should be iterable where Symbol.asyncIterator exists', async () => {
+    const iterator = countTo(1)
+    const getIterator = iterator[Symbol.asyncIterator]
+    if (Symbol.asyncIterator) expect(getIterator()).toBe(iterator)
+    else expect(getIterator).toBeUndefined()
+  })
+
+  it('should call the function with all the values', async () => {
+    const values: number[] = []
+    await forEachAsync(countTo(3), async value => {
+      values.push(value)
+    })
+    expect(values).toEqual([1, 2, 3])
+  })
+
+  it('should stop when the function resolves with false', async () => {
+    const values: number[] = []
+    const iterator = countTo(3)
+    await forEachAsync(iterator, async value => values.push(value) < 2)
+    expect(values).toEqual([1, 2])
+    expect(await iterator.next()).toEqual({ done: false, value: 3 })
+  })
+
+  it('should reject with the error of the function', async () => {
+    const error = new Error('nope')
+    await expect(forEachAsync(countTo(3), () => Promise.reject(error))).rejects.toBe(error)
+  })
+})
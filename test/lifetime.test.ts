@@ -0,0 +1,27 @@
+import { createdAtField, getCreatedAt, lifetimeLeft, stampCreatedAt } from '../src/lifetime'
+
+describe('Lifetime test suit', () => {
+  const now = 1500000000000
+
+  it('should stamp the creation time only once', () => {
+    const session: any = { cookie: {} }
+    stampCreatedAt(session, now)
+    stampCreatedAt(session, now + 1000)
+    expect(session[createdAtField]).toBe(now)
+    expect(getCreatedAt(session)).toBe(now)
+  })
+
+  it('should ignore the creation times that are not numbers', () => {
+    expect(getCreatedAt({ [createdAtField]: '1500000000000' } as any)).toBeUndefined()
+  })
+
+  it('should give the seconds left since the creation', () => {
+    const session: any = { [createdAtField]: now }
+    expect(lifetimeLeft(session, 60, now + 15000)).toBe(45)
+    expect(lifetimeLeft(session, 60, now + 75000)).toBe(-15)
+  })
+
+  it('should never end the lifetime of the sessions without creation time', () => {
+    expect(lifetimeLeft({} as any, 60, now)).toBe(Infinity)
+  })
+})
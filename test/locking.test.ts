@@ -0,0 +1,147 @@
+import { createHmac } from 'crypto'
+import { EventEmitter } from 'events'
+import { SessionLockError } from '../src/errors'
+import { acquireLock, cookieSid, sessionLock } from '../src/locking'
+
+describe('Locking test suit', () => {
+  const secret = 'keyboard cat'
+
+  function signedCookie(sid: string, key = secret, name = 'connect.sid') {
+    const signature = createHmac('sha256', key)
+      .update(sid)
+      .digest('base64')
+      .replace(/=+$/, '')
+    return `other=1; ${name}=${encodeURIComponent(`s:${sid}.${signature}`)}`
+  }
+
+  function request(cookie?: string): any {
+    return { headers: cookie ? { cookie } : {} }
+  }
+
+  describe('when reading the session cookie', () => {
+    it('should give the sid of the signed cookie', () => {
+      expect(cookieSid(request(signedCookie('sid1')), 'connect.sid', secret)).toBe('sid1')
+    })
+
+    it('should accept any of the secrets', () => {
+      const req = request(signedCookie('sid1', 'old'))
+      expect(cookieSid(req, 'connect.sid', [secret, 'old'])).toBe('sid1')
+    })
+
+    it('should read the cookie of the given name', () => {
+      const req = request(signedCookie('sid1', secret, 'sess'))
+      expect(cookieSid(req, 'sess', secret)).toBe('sid1')
+      expect(cookieSid(req, 'connect.sid', secret)).toBeUndefined()
+    })
+
+    it('should refuse the cookies not signed with the secrets', () => {
+      expect(cookieSid(request(signedCookie('sid1', 'nope')), 'connect.sid', secret)).toBe(
+        undefined
+      )
+      expect(cookieSid(request('connect.sid=sid1'), 'connect.sid', secret)).toBeUndefined()
+      expect(cookieSid(request('connect.sid=%E0'), 'connect.sid', secret)).toBeUndefined()
+      expect(cookieSid(request(), 'connect.sid', secret)).toBeUndefined()
+    })
+  })
+
+  describe('when acquiring a lock', () => {
+    function createClient(commit: () => Promise<any>) {
+      const lease = {
+        grant: jest.fn(() => Promise.resolve('42')),
+        revoke: jest.fn(() => Promise.resolve())
+      }
+      const put = { value: jest.fn(), lease: jest.fn() }
+      put.value.mockReturnValue(put)
+      put.lease.mockReturnValue(put)
+      const txn = { then: jest.fn(), commit: jest.fn(commit) }
+      txn.then.mockReturnValue(txn)
+      const client = {
+        lease: jest.fn(() => lease),
+        if: jest.fn(() => txn),
+        put: jest.fn(() => put)
+      }
+      return { client: client as any, lease, put, txn }
+    }
+
+    it('should put the key of the lock bound to a lease of the ttl', async () => {
+      const { client, lease, put } = createClient(() => Promise.resolve({ succeeded: true }))
+      expect(await acquireLock(client, 'sess:locks/sid1', 'sid1', { ttl: 10 })).toBe(lease)
+      expect(client.lease).toHaveBeenCalledWith(10)
+      expect(client.if).toHaveBeenCalledWith('sess:locks/sid1', 'Create', '==', 0)
+      expect(client.put).toHaveBeenCalledWith('sess:locks/sid1')
+      expect(put.lease).toHaveBeenCalledWith('42')
+      expect(lease.revoke).not.toHaveBeenCalled()
+    })
+
+    it('should try again with the same lease while the lock is held', async () => {
+      let attempts = 0
+      const { client, txn } = createClient(() => Promise.resolve({ succeeded: ++attempts >= 3 }))
+      await acquireLock(client, 'key', 'sid1', { retryDelay: 1 })
+      expect(txn.commit).toHaveBeenCalledTimes(3)
+      expect(client.lease).toHaveBeenCalledTimes(1)
+    })
+
+    it('should fail after the timeout and revoke the lease', async () => {
+      const { client, lease } = createClient(() => Promise.resolve({ succeeded: false }))
+      const acquiring = acquireLock(client, 'key', 'sid1', { timeout: 30, retryDelay: 5 })
+      await expect(acquiring).rejects.toEqual(
+        new SessionLockError('The session "sid1" is still locked after 30ms.', 'sid1')
+      )
+      expect(lease.revoke).toHaveBeenCalled()
+    })
+
+    it('should not try again on the other errors', async () => {
+      const error = new Error('unavailable')
+      const { client, txn } = createClient(() => Promise.reject(error))
+      await expect(acquireLock(client, 'key', 'sid1')).rejects.toBe(error)
+      expect(txn.commit).toHaveBeenCalledTimes(1)
+    })
+  })
+
+  describe('when locking the requests', () => {
+    function createStore(locking = Promise.resolve()) {
+      const release = jest.fn(() => Promise.resolve())
+      const store = { lockSession: jest.fn(() => locking.then(() => release)) }
+      return { store, release }
+    }
+
+    function handle(store: any, cookie?: string) {
+      const res = new EventEmitter()
+      return new Promise<{ res: EventEmitter; err: any }>(resolve =>
+        sessionLock(store, { secret, timeout: 100 })(request(cookie), res as any, err =>
+          resolve({ res, err })
+        )
+      )
+    }
+
+    it('should lock the session until the response is sent', async () => {
+      const { store, release } = createStore()
+      const { res, err } = await handle(store, signedCookie('sid1'))
+      expect(err).toBeUndefined()
+      expect(store.lockSession).toHaveBeenCalledWith('sid1', { timeout: 100 })
+      expect(release).not.toHaveBeenCalled()
+      res.emit('finish')
+      res.emit('close')
+      expect(release).toHaveBeenCalledTimes(1)
+    })
+
+    it('should release the lock when the connection is closed', async () => {
+      const { store, release } = createStore()
+      const { res } = await handle(store, signedCookie('sid1'))
+      res.emit('close')
+      expect(release).toHaveBeenCalledTimes(1)
+    })
+
+    it('should not lock the requests without session cookie', async () => {
+      const { store } = createStore()
+      await handle(store)
+      expect(store.lockSession).not.toHaveBeenCalled()
+    })
+
+    it('should pass the lock errors to the next handler', async () => {
+      const error = new SessionLockError('locked', 'sid1')
+      const { store } = createStore(Promise.reject(error))
+      expect((await handle(store, signedCookie('sid1'))).err).toBe(error)
+    })
+  })
+})
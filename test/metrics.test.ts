@@ -0,0 +1,79 @@
+import { errorClass, PrometheusMetrics } from '../src/metrics'
+import { ConflictError } from '../src/errors'
+
+describe('Metrics test suit', () => {
+  class GRPCConnectFailedError extends Error {
+    constructor() {
+      super()
+      Object.setPrototypeOf(this, GRPCConnectFailedError.prototype)
+    }
+  }
+
+  function lines(metrics: PrometheusMetrics) {
+    return metrics.metrics().split('\n')
+  }
+
+  it('should count the operations', () => {
+    const metrics = new PrometheusMetrics()
+    metrics.operation('get', 0.002)
+    metrics.operation('get', 0.003)
+    metrics.operation('set', 0.01)
+    expect(lines(metrics)).toEqual(
+      expect.arrayContaining([
+        'express_session_etcd3_operations_total{operation="get"} 2',
+        'express_session_etcd3_operations_total{operation="set"} 1'
+      ])
+    )
+  })
+
+  it('should count the errors by class', () => {
+    const metrics = new PrometheusMetrics()
+    metrics.operation('get', 0.1, new GRPCConnectFailedError())
+    metrics.operation('get', 0.1, new GRPCConnectFailedError())
+    metrics.operation('set', 0.1, new ConflictError('conflict', 'sid'))
+    expect(lines(metrics)).toEqual(
+      expect.arrayContaining([
+        'express_session_etcd3_errors_total{operation="get",error="GRPCConnectFailedError"} 2',
+        'express_session_etcd3_errors_total{operation="set",error="ConflictError"} 1'
+      ])
+    )
+  })
+
+  it('should keep the latencies in cumulative buckets', () => {
+    const metrics = new PrometheusMetrics({ latencyBuckets: [0.01, 0.1] })
+    metrics.operation('touch', 0.005)
+    metrics.operation('touch', 0.05)
+    metrics.operation('touch', 2)
+    const name = 'express_session_etcd3_operation_duration_seconds'
+    expect(lines(metrics)).toEqual(
+      expect.arrayContaining([
+        `${name}_bucket{operation="touch",le="0.01"} 1`,
+        `${name}_bucket{operation="touch",le="0.1"} 2`,
+        `${name}_bucket{operation="touch",le="+Inf"} 3`,
+        `${name}_sum{operation="touch"} 2.055`,
+        `${name}_count{operation="touch"} 3`
+      ])
+    )
+  })
+
+  it('should keep the payload sizes and the leases granted', () => {
+    const metrics = new PrometheusMetrics({ prefix: 'sessions', payloadBuckets: [100] })
+    metrics.payload('set', 50)
+    metrics.payload('set', 500)
+    metrics.leaseGranted()
+    expect(lines(metrics)).toEqual(
+      expect.arrayContaining([
+        '# TYPE sessions_payload_bytes histogram',
+        'sessions_payload_bytes_bucket{operation="set",le="100"} 1',
+        'sessions_payload_bytes_count{operation="set"} 2',
+        '# TYPE sessions_leases_granted_total counter',
+        'sessions_leases_granted_total 1'
+      ])
+    )
+  })
+
+  it('should give a class to any error', () => {
+    expect(errorClass(new TypeError())).toBe('TypeError')
+    expect(errorClass('any rejection')).toBe('unknown')
+  })
+})
@@ -0,0 +1,89 @@
+import { PassThrough, Writable } from 'stream'
+import { formatRecord, parseRecord, readRecords, SessionRecord, writeLine } from '../src/ndjson'
+
+describe('NDJSON test suit', () => {
+  const record: SessionRecord = { sid: 'sid1', session: { user: 42 } as any, ttl: 100 }
+
+  function read(...chunks: string[]) {
+    const stream = new PassThrough()
+    const records: SessionRecord[] = []
+    const reading = readRecords(stream, async rec => {
+      records.push(rec)
+    })
+    chunks.forEach(chunk => stream.write(chunk))
+    stream.end()
+    return reading.then(() => records)
+  }
+
+  it('should format a record per line', () => {
+    expect(formatRecord(record)).toBe('{"sid":"sid1","session":{"user":42},"ttl":100}\n')
+  })
+
+  it('should read the records split across chunks', async () => {
+    const line = formatRecord(record)
+    const records = await read(line.slice(0, 10), line.slice(10) + '\n' + line.slice(0, -1))
+    expect(records).toEqual([record, record])
+  })
+
+  it('should keep the dates, buffers, maps and sets of the sessions', async () => {
+    const session: any = {
+      cookie: { expires: new Date(1500000000000) },
+      avatar: Buffer.from('hello'),
+      roles: new Set(['admin']),
+      prefs: new Map([['theme', 'dark']])
+    }
+    const line = formatRecord({ sid: 'sid1', session })
+    expect(line).toContain('{"$type":"Date","$value":1500000000000}')
+    expect(await read(line)).toEqual([{ sid: 'sid1', session }])
+  })
+
+  it('should read the records without ttl', async () => {
+    const records = await read('{"sid":"sid1","session":{}}\n')
+    expect(records).toEqual([{ sid: 'sid1', session: {} }])
+  })
+
+  it('should refuse the invalid records with their line number', async () => {
+    await expect(read(formatRecord(record), '{"sid":"sid2"}\n')).rejects.toEqual(
+      new SyntaxError(
+        'Invalid session record at line 2: it needs a "sid", a "session" and a numeric "ttl".'
+      )
+    )
+    expect(() => parseRecord('{', 3)).toThrow(/^Invalid session record at line 3: /)
+  })
+
+  it('should stop reading when a record fails', async () => {
+    const stream = new PassThrough()
+    const error = new Error()
+    const onRecord = jest.fn(() => Promise.reject(error))
+    const reading = readRecords(stream, onRecord)
+    stream.end(formatRecord(record) + formatRecord(record))
+    await expect(reading).rejects.toBe(error)
+    expect(onRecord).toHaveBeenCalledTimes(1)
+  })
+
+  it('should wait for the stream to drain', async () => {
+    const written: string[] = []
+    const stream = new Writable({
+      highWaterMark: 1,
+      write(chunk: Buffer, encoding: string, callback: () => void) {
+        written.push(chunk.toString())
+        setImmediate(callback)
+      }
+    })
+    await writeLine(stream, 'a\n')
+    await writeLine(stream, 'b\n')
+    expect(written).toEqual(['a\n', 'b\n'])
+  })
+
+  it('should reject when the stream fails before draining', async () => {
+    const error = new Error('disk full')
+    const stream = new Writable({
+      highWaterMark: 1,
+      write(chunk: Buffer, encoding: string, callback: (err?: Error) => void) {
+        setImmediate(() => callback(error))
+      }
+    })
+    await expect(writeLine(stream, 'a\n')).rejects.toBe(error)
+    expect(stream.listenerCount('drain')).toBe(0)
+  })
+})
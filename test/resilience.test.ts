@@ -0,0 +1,122 @@
+import { EtcdError, GRPCConnectFailedError, GRPCDeadlineExceededError } from 'etcd3/lib/src/errors'
+import {
+  CircuitBreaker,
+  CircuitEvent,
+  isTransientError,
+  Resilience,
+  retryDelay
+} from '../src/resilience'
+import { CircuitOpenError } from '../src/errors'
+
+describe('Resilience test suit', () => {
+  const unavailable = new GRPCConnectFailedError('unavailable')
+
+  function run(resilience: Resilience, attempt: jest.Mock, fallback?: jest.Mock) {
+    return new Promise<{ err: any; value: any }>(resolve =>
+      resilience.run(attempt, fallback, (err, value) => resolve({ err, value }))
+    )
+  }
+
+  function failing(error: any) {
+    return jest.fn(cb => cb(error))
+  }
+
+  it('should tell the transient errors', () => {
+    expect(isTransientError(unavailable)).toBe(true)
+    expect(isTransientError(new GRPCDeadlineExceededError('deadline'))).toBe(true)
+    expect(isTransientError(new EtcdError('etcdserver: leader changed'))).toBe(true)
+    expect(isTransientError(new EtcdError('etcdserver: permission denied'))).toBe(false)
+    expect(isTransientError(new Error())).toBe(false)
+  })
+
+  it('should grow the retry delay up to its maximum', () => {
+    const options = { minDelay: 100, maxDelay: 300 }
+    for (let i = 0; i < 10; i++) {
+      expect(retryDelay(0, options)).toBeGreaterThanOrEqual(50)
+      expect(retryDelay(0, options)).toBeLessThanOrEqual(100)
+      expect(retryDelay(1, options)).toBeGreaterThanOrEqual(100)
+      expect(retryDelay(5, options)).toBeLessThanOrEqual(300)
+    }
+  })
+
+  it('should open the circuit after consecutive failures', () => {
+    const events: CircuitEvent[] = []
+    const breaker = new CircuitBreaker({ failureThreshold: 2 }, event => events.push(event))
+    breaker.failure(unavailable)
+    breaker.success()
+    breaker.failure(unavailable)
+    expect(breaker.allow()).toBe(true)
+    breaker.failure(unavailable)
+    expect(breaker.allow()).toBe(false)
+    expect(events).toEqual([{ from: 'closed', to: 'open', error: unavailable }])
+  })
+
+  it('should let a single trial through once the reset timeout is over', () => {
+    const events: CircuitEvent[] = []
+    const breaker = new CircuitBreaker({ failureThreshold: 1, resetTimeout: 0 }, event =>
+      events.push(event)
+    )
+    breaker.failure(unavailable)
+    expect(breaker.allow()).toBe(true)
+    expect(breaker.allow()).toBe(false)
+    breaker.failure(unavailable)
+    expect(breaker.state).toBe('open')
+    expect(breaker.allow()).toBe(true)
+    breaker.success()
+    expect(breaker.state).toBe('closed')
+    expect(events.map(event => event.to)).toEqual([
+      'open',
+      'half-open',
+      'open',
+      'half-open',
+      'closed'
+    ])
+  })
+
+  it('should retry the transient errors', async () => {
+    const resilience = new Resilience({ retry: { retries: 2, minDelay: 0 } }, jest.fn())
+    const attempt = jest
+      .fn()
+      .mockImplementationOnce(cb => cb(unavailable))
+      .mockImplementationOnce(cb => cb(null, 'value'))
+    expect(await run(resilience, attempt)).toEqual({ err: null, value: 'value' })
+    expect(attempt).toHaveBeenCalledTimes(2)
+  })
+
+  it('should give up after the last retry', async () => {
+    const resilience = new Resilience({ retry: { retries: 2, minDelay: 0 } }, jest.fn())
+    const attempt = failing(unavailable)
+    expect((await run(resilience, attempt)).err).toBe(unavailable)
+    expect(attempt).toHaveBeenCalledTimes(3)
+  })
+
+  it('should not retry the other errors', async () => {
+    const resilience = new Resilience({ retry: true }, jest.fn())
+    const error = new Error()
+    const attempt = failing(error)
+    expect((await run(resilience, attempt)).err).toBe(error)
+    expect(attempt).toHaveBeenCalledTimes(1)
+  })
+
+  it('should fail fast while the circuit is open', async () => {
+    const resilience = new Resilience({ circuitBreaker: { failureThreshold: 1 } }, jest.fn())
+    const attempt = failing(unavailable)
+    expect((await run(resilience, attempt)).err).toBe(unavailable)
+    expect((await run(resilience, attempt)).err).toBeInstanceOf(CircuitOpenError)
+    expect(attempt).toHaveBeenCalledTimes(1)
+  })
+
+  it('should run the fallback once the circuit opens', async () => {
+    const onCircuit = jest.fn()
+    const fallback = jest.fn(cb => cb(null, 'fallback'))
+    const resilience = new Resilience(
+      { circuitBreaker: { failureThreshold: 1 }, fallback: {} as any },
+      onCircuit
+    )
+    const attempt = failing(unavailable)
+    expect(await run(resilience, attempt, fallback)).toEqual({ err: null, value: 'fallback' })
+    expect(await run(resilience, attempt, fallback)).toEqual({ err: null, value: 'fallback' })
+    expect(attempt).toHaveBeenCalledTimes(1)
+    expect(onCircuit).toHaveBeenCalledTimes(1)
+  })
+})
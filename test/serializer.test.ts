@@ -0,0 +1,100 @@
+import { jsonSerializer, msgpackSerializer, Serializer } from '../src/serializer'
+
+describe('Serializers test suit', () => {
+  const sessionData = {
+    cookie: { originalMaxAge: 10, path: '/', maxAge: 10, expires: null, httpOnly: true }
+  }
+  const richSession: any = {
+    ...sessionData,
+    createdAt: new Date('2018-05-01T10:20:30.456Z'),
+    avatar: Buffer.from([0, 1, 2, 254, 255]),
+    flags: new Map<string, any>([
+      ['beta', true],
+      ['limit', 10]
+    ]),
+    roles: new Set(['admin', 'user']),
+    cart: [
+      { id: 1, price: 9.99, qty: -3 },
+      { id: 70000, price: -1.5e10, qty: 300 }
+    ],
+    nested: { deep: { empty: '', nothing: null, long: 'x'.repeat(70000) } }
+  }
+
+  function roundTrip(serializer: Serializer, session: any) {
+    const value = serializer.serialize(session)
+    return serializer.deserialize(typeof value === 'string' ? Buffer.from(value) : value)
+  }
+
+  const serializers: [string, Serializer][] = [
+    ['json', jsonSerializer],
+    ['msgpack', msgpackSerializer]
+  ]
+  serializers.forEach(([name, serializer]) => {
+    describe(`when using the ${name} serializer`, () => {
+      it('should have its name', () => {
+        expect(serializer.name).toBe(name)
+      })
+
+      it('should read back a plain session', () => {
+        expect(roundTrip(serializer, sessionData)).toEqual(sessionData)
+      })
+
+      it('should keep the Date, Buffer, Map and Set values', () => {
+        const session = roundTrip(serializer, richSession)
+        expect(session.createdAt).toBeInstanceOf(Date)
+        expect(session.avatar).toBeInstanceOf(Buffer)
+        expect(session.flags).toBeInstanceOf(Map)
+        expect(session.roles).toBeInstanceOf(Set)
+        expect(session).toEqual(richSession)
+      })
+
+      it('should leave out undefined values and functions like JSON does', () => {
+        const session = { ...sessionData, nope: undefined, fn: () => 1 }
+        expect(roundTrip(serializer, session)).toEqual(sessionData)
+      })
+
+      it('should use the toJSON method of the objects', () => {
+        const session = { ...sessionData, cookie: { toJSON: () => sessionData.cookie } }
+        expect(roundTrip(serializer, session)).toEqual(sessionData)
+      })
+
+      it('should read back the objects with a $type key as they are', () => {
+        const session = { ...sessionData, tagged: { $type: 'Date', $value: 'nope' } }
+        expect(roundTrip(serializer, session)).toEqual(session)
+      })
+
+      it('should keep a __proto__ key as an own property', () => {
+        const session = { ...sessionData, data: JSON.parse('{"__proto__":{"polluted":1},"a":1}') }
+        const read = roundTrip(serializer, session)
+        expect(Object.keys(read.data)).toEqual(['__proto__', 'a'])
+        expect(read.data.polluted).toBeUndefined()
+        expect(({} as any).polluted).toBeUndefined()
+      })
+    })
+  })
+
+  describe('when encoding as msgpack', () => {
+    it('should be more compact than the json serializer', () => {
+      const json = jsonSerializer.serialize(richSession)
+      const binary = msgpackSerializer.serialize(richSession)
+      expect(binary.length).toBeLessThan(Buffer.byteLength(json as string))
+    })
+
+    it('should keep the integer limits', () => {
+      const numbers = [127, 128, 255, 256, 65535, 65536, -32, -33, -128, -129, -32768, -32769]
+      const limits = [...numbers, 4294967295, -2147483648, 4294967296, -2147483649]
+      expect(roundTrip(msgpackSerializer, { limits })).toEqual({ limits })
+    })
+
+    it('should throw an error for truncated data', () => {
+      const value = msgpackSerializer.serialize(sessionData) as Buffer
+      expect(() => msgpackSerializer.deserialize(value.slice(0, -1))).toThrowError(RangeError)
+    })
+
+    it('should throw an error for data after the value', () => {
+      const value = msgpackSerializer.serialize(sessionData) as Buffer
+      const extra = Buffer.concat([value, Buffer.from([0])])
+      expect(() => msgpackSerializer.deserialize(extra)).toThrowError(TypeError)
+    })
+  })
+})
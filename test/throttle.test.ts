@@ -0,0 +1,70 @@
+import { TouchThrottle } from '../src/throttle'
+
+describe('Touch throttle test suit', () => {
+  const now = 1500000000000
+
+  it('should touch the leases not tracked', () => {
+    expect(new TouchThrottle().due('key', 100, now)).toBe(true)
+  })
+
+  it('should touch once less than half of the ttl is left by default', () => {
+    const throttle = new TouchThrottle()
+    throttle.refreshed('key', 100, now)
+    expect(throttle.due('key', 100, now + 49000)).toBe(false)
+    expect(throttle.due('key', 100, now + 51000)).toBe(true)
+  })
+
+  it('should touch under the given ratio of the ttl', () => {
+    const throttle = new TouchThrottle({ ratio: 0.1 })
+    throttle.refreshed('key', 100, now)
+    expect(throttle.due('key', 100, now + 89000)).toBe(false)
+    expect(throttle.due('key', 100, now + 91000)).toBe(true)
+  })
+
+  it('should touch under the given seconds left', () => {
+    const throttle = new TouchThrottle({ ratio: 0.1, remaining: 30 })
+    throttle.refreshed('key', 100, now)
+    expect(throttle.due('key', 100, now + 69000)).toBe(false)
+    expect(throttle.due('key', 100, now + 71000)).toBe(true)
+  })
+
+  it('should touch when the ttl grew over the threshold', () => {
+    const throttle = new TouchThrottle()
+    throttle.refreshed('key', 100, now)
+    expect(throttle.due('key', 300, now)).toBe(true)
+  })
+
+  it('should not touch when the ttl is off by a second', () => {
+    const throttle = new TouchThrottle()
+    throttle.refreshed('key', 100, now)
+    expect(throttle.due('key', 99, now + 1000)).toBe(false)
+    expect(throttle.due('key', 101, now + 1000)).toBe(false)
+  })
+
+  it('should touch the forgotten leases', () => {
+    const throttle = new TouchThrottle()
+    throttle.refreshed('key', 100, now)
+    throttle.refreshed('other', 100, now)
+    throttle.forget('key')
+    expect(throttle.due('key', 100, now)).toBe(true)
+    throttle.clear()
+    expect(throttle.due('other', 100, now)).toBe(true)
+  })
+
+  it('should forget the least recently refreshed leases over the max', () => {
+    const throttle = new TouchThrottle({ max: 2 })
+    throttle.refreshed('a', 100, now)
+    throttle.refreshed('b', 100, now)
+    throttle.refreshed('a', 100, now)
+    throttle.refreshed('c', 100, now)
+    expect(throttle.due('a', 100, now)).toBe(false)
+    expect(throttle.due('b', 100, now)).toBe(true)
+    expect(throttle.due('c', 100, now)).toBe(false)
+  })
+
+  it('should not track anything with a max of 0', () => {
+    const throttle = new TouchThrottle({ max: 0 })
+    throttle.refreshed('key', 100, now)
+    expect(throttle.due('key', 100, now)).toBe(true)
+  })
+})
@@ -0,0 +1,40 @@
+import { parseSession, validateSession } from '../src/validation'
+import { InvalidSessionError } from '../src/errors'
+
+describe('Validation test suit', () => {
+  const session = { cookie: { originalMaxAge: 10, path: '/', httpOnly: true } }
+
+  it('should accept the sessions with a cookie object', () => {
+    expect(() => validateSession(session, 'sid')).not.toThrow()
+  })
+
+  it('should refuse the values that are not sessions', () => {
+    ;[null, 'session', [session]].forEach(value =>
+      expect(() => validateSession(value, 'sid')).toThrow('The session is not an object.')
+    )
+    expect(() => validateSession({ cookie: 'cookie' }, 'sid')).toThrow(
+      'The session has no `cookie` object.'
+    )
+  })
+
+  it('should check the sessions with the validator', () => {
+    const validator = jest.fn((sess: any) => sess.user !== undefined)
+    expect(() => validateSession(session, 'sid', validator)).toThrow(InvalidSessionError)
+    expect(validator).toHaveBeenCalledWith(session, 'sid')
+    expect(() => validateSession({ ...session, user: 1 }, 'sid', validator)).not.toThrow()
+  })
+
+  it('should give the error thrown by the validator', () => {
+    const validator = () => {
+      throw new Error('no user')
+    }
+    expect(() => validateSession(session, 'sid', validator)).toThrow(
+      'The session was rejected by the validator: no user'
+    )
+  })
+
+  it('should give the parse errors as invalid sessions', () => {
+    expect(() => parseSession(() => JSON.parse('typo{b:1}'))).toThrow(InvalidSessionError)
+    expect(parseSession(() => JSON.parse('{"a":1}'))).toEqual({ a: 1 })
+  })
+})